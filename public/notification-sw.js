@@ -0,0 +1,28 @@
+// Service worker for desktop notifications. The page decides what to notify
+// about; this worker only shows the notification and brings the app back to
+// the right group when it is clicked.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { groupId, url } = event.notification.data || {};
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find((candidate) => candidate.url.startsWith(self.registration.scope));
+
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'open-group', groupId });
+    } else if (url) {
+      await self.clients.openWindow(url);
+    }
+  })());
+});
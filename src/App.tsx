@@ -1,31 +1,49 @@
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { useEffect, useState } from 'react';
-import { User } from 'firebase/auth';
+import { ReactNode } from 'react';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { Loader2 } from 'lucide-react';
-import { auth } from './config/firebase';
+import { useAuthUser } from './hooks/useChatBackend';
+import { AuthUser } from './backend/chatBackend';
+import { RedirectState, authActionPath, emailLinkPath } from './utils/routes';
+import { hasVerifiedEmail } from './utils/authProviders';
 import HomePage from './pages/HomePage';
 import AuthPage from './pages/AuthPage';
 import ChatsPage from './pages/ChatsPage';
+import SettingsPage from './pages/SettingsPage';
+import ChooseUsernamePage from './pages/ChooseUsernamePage';
+import EmailLinkPage from './pages/EmailLinkPage';
+import AuthActionPage from './pages/AuthActionPage';
 import VerifyEmail from './pages/VerifyEmail';
 
-function App() {
-  const [loading, setLoading] = useState(true);
-  const [user, setUser] = useState<User | null>(null);
+const RedirectBack = () => {
+  const location = useLocation();
+  const from = (location.state as RedirectState | null)?.from;
+  return <Navigate to={from ?? '/chats'} replace />;
+};
+
+// Firebase updates the user in place, e.g. when changing the email makes it
+// unverified, so these check it while rendering rather than in App
+const VerifiedRoute = ({ user, children }: { user: AuthUser | null; children: ReactNode }) => {
+  const location = useLocation();
+  const state: RedirectState = { from: location.pathname };
 
-  useEffect(() => {
-    const unsubscribe = auth.onAuthStateChanged(async (currentUser) => {
-      if (currentUser) {
-        // Reload user to get latest emailVerified status
-        await currentUser.reload();
-        setUser(currentUser);
-      } else {
-        setUser(null);
-      }
-      setLoading(false);
-    });
+  if (!user) {
+    return <Navigate to="/auth" state={state} />;
+  }
+  if (!hasVerifiedEmail(user)) {
+    return <Navigate to="/verify-email" state={state} />;
+  }
+  return <>{children}</>;
+};
 
-    return () => unsubscribe();
-  }, []);
+const VerifyEmailRoute = ({ user }: { user: AuthUser | null }) => {
+  if (!user) {
+    return <Navigate to="/auth" />;
+  }
+  return hasVerifiedEmail(user) ? <RedirectBack /> : <VerifyEmail />;
+};
+
+function App() {
+  const { user, loading } = useAuthUser();
 
   if (loading) {
     return (
@@ -41,31 +59,24 @@ function App() {
         <Route path="/" element={<HomePage />} />
         <Route
           path="/auth"
-          element={user ? <Navigate to="/chats" /> : <AuthPage />}
+          element={user ? <RedirectBack /> : <AuthPage />}
         />
+        <Route path={emailLinkPath} element={<EmailLinkPage />} />
+        <Route path={authActionPath} element={<AuthActionPage />} />
+        <Route path="/verify-email" element={<VerifyEmailRoute user={user} />} />
         <Route
-          path="/verify-email"
-          element={
-            !user ? (
-              <Navigate to="/auth" />
-            ) : user.emailVerified ? (
-              <Navigate to="/chats" />
-            ) : (
-              <VerifyEmail />
-            )
-          }
+          path="/choose-username"
+          element={user ? <ChooseUsernamePage /> : <Navigate to="/auth" />}
         />
+        {/* ChatsPage reads the group and message from the child routes, so
+            it stays mounted when moving between them */}
+        <Route path="/chats" element={<VerifiedRoute user={user}><ChatsPage /></VerifiedRoute>}>
+          <Route path=":groupId" />
+          <Route path=":groupId/m/:messageId" />
+        </Route>
         <Route
-          path="/chats"
-          element={
-            !user ? (
-              <Navigate to="/auth" />
-            ) : !user.emailVerified ? (
-              <Navigate to="/verify-email" />
-            ) : (
-              <ChatsPage />
-            )
-          }
+          path="/settings"
+          element={<VerifiedRoute user={user}><SettingsPage /></VerifiedRoute>}
         />
       </Routes>
     </Router>
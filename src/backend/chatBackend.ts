@@ -0,0 +1,370 @@
+import {
+  Attachment,
+  Group,
+  Invite,
+  InviteOptions,
+  Mention,
+  Message,
+  MessageBody,
+  MessageDraft,
+  ReadReceipt,
+  TypingEntry,
+  UserData
+} from '../types/chat';
+import { NotificationLevel, NotificationSettings } from '../types/user';
+
+// The pages and hooks talk to Firebase only through this interface, so the UI
+// can run against the in-memory implementation as well.
+
+export type Unsubscribe = () => void;
+
+// One way of signing in to the account, e.g. 'password' or 'google.com'
+export interface AuthProviderInfo {
+  providerId: string;
+  email: string | null;
+}
+
+// The parts of the signed-in account the pages use. Implementations return
+// the same object until the account changes, so it is safe as a dependency.
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  emailVerified: boolean;
+  providerData: AuthProviderInfo[];
+}
+
+export type OAuthProviderId = 'google.com' | 'github.com';
+
+export interface SignUpDetails {
+  email: string;
+  password: string;
+  username: string;
+}
+
+// Signing in with a provider or an email link creates the account the first
+// time, without a username or encryption keys
+export interface ProviderSignIn {
+  user: AuthUser;
+  needsProfile: boolean;
+}
+
+export interface ProfileDetails {
+  username: string;
+  // Locks the encryption keys, since the account may have no password
+  passphrase: string;
+}
+
+// A sign-in, or reauthentication for an account change, of an account with
+// two-factor authentication that still needs a code from the authenticator
+// app. A backup code works in its place, once; a used or unknown one rejects
+// with InvalidBackupCodeError.
+export interface SecondFactorChallenge {
+  resolve(code: string): Promise<AuthUser>;
+}
+
+export class SecondFactorRequiredError extends Error {
+  challenge: SecondFactorChallenge;
+
+  constructor(challenge: SecondFactorChallenge) {
+    super('A code from your authenticator app is required');
+    this.name = 'SecondFactorRequiredError';
+    this.challenge = challenge;
+  }
+}
+
+export class InvalidBackupCodeError extends Error {
+  constructor() {
+    super('That backup code is incorrect or was already used');
+    this.name = 'InvalidBackupCodeError';
+  }
+}
+
+export class UsernameTakenError extends Error {
+  constructor() {
+    super('Username is already taken');
+    this.name = 'UsernameTakenError';
+  }
+}
+
+// The private key is locked with a different password or passphrase than
+// the one given, e.g. the password from before a reset
+export class KeyPassphraseError extends Error {
+  constructor() {
+    super('Your encryption keys are locked with a different password or passphrase');
+    this.name = 'KeyPassphraseError';
+  }
+}
+
+export interface SecondFactor {
+  uid: string;
+  displayName: string | null;
+  enrolledAt: Date;
+}
+
+export interface TotpEnrollment {
+  // Base32, for typing into the app instead of scanning `otpauthUrl`
+  secretKey: string;
+  otpauthUrl: string;
+  // Checks a code from the app and turns two-factor authentication on.
+  // Resolves with new backup codes, replacing any earlier ones; they are
+  // only ever shown here.
+  finish(code: string, displayName: string): Promise<string[]>;
+}
+
+export interface AuthBackend {
+  currentUser(): AuthUser | null;
+  onAuthStateChanged(callback: (user: AuthUser | null) => void): Unsubscribe;
+  // Refreshes the account, e.g. to pick up a verified email
+  reloadUser(): Promise<AuthUser | null>;
+  isUsernameTaken(username: string): Promise<boolean>;
+  // Creates the account and profile, generates the encryption keys and
+  // sends the verification email. Rejects with UsernameTakenError, without
+  // leaving an account behind, if someone else claimed the name first.
+  signUp(details: SignUpDetails): Promise<AuthUser>;
+  // Both reject with SecondFactorRequiredError for accounts with two-factor
+  // authentication
+  signIn(email: string, password: string): Promise<AuthUser>;
+  signInWithProvider(providerId: OAuthProviderId): Promise<ProviderSignIn>;
+  // Emails a link that signs in to the address's account, opening `continueUrl`
+  sendSignInLink(email: string, continueUrl: string): Promise<void>;
+  isSignInLink(url: string): boolean;
+  // `email` has to be the address the link was sent to. Following the link
+  // also verifies it. Rejects with SecondFactorRequiredError like the others.
+  signInWithLink(email: string, url: string): Promise<ProviderSignIn>;
+  // Claims the username and creates the profile and encryption keys of an
+  // account that signed in with a provider
+  completeProfile(details: ProfileDetails): Promise<void>;
+  signOut(): Promise<void>;
+  sendPasswordReset(email: string): Promise<void>;
+  sendVerificationEmail(): Promise<void>;
+  // Codes from emailed action links. All reject with auth/expired-action-code
+  // or auth/invalid-action-code for codes that can't be used.
+  // Resolves to the email of the account being reset
+  verifyPasswordResetCode(code: string): Promise<string>;
+  confirmPasswordReset(code: string, newPassword: string): Promise<void>;
+  // Verifies an address, or confirms or undoes an email change. Resolves to
+  // the address verified, changed to or restored.
+  applyEmailActionCode(code: string): Promise<string | null>;
+  // Records on the profile that the account's email has been verified
+  markEmailVerified(uid: string): Promise<void>;
+  getProfile(uid: string): Promise<UserData | null>;
+  findUidByUsername(username: string): Promise<string | null>;
+  hasUnlockedKeys(uid: string): Promise<boolean>;
+  unlockKeys(uid: string, passphrase: string): Promise<void>;
+}
+
+export interface ProfileChanges {
+  bio?: string;
+}
+
+export interface AccountBackend {
+  // Claims the new username and releases the old one in one transaction
+  rename(uid: string, username: string): Promise<void>;
+  updateProfile(uid: string, changes: ProfileChanges): Promise<void>;
+  // Resolves to the URL of the uploaded avatar
+  uploadAvatar(uid: string, file: File): Promise<string>;
+  // Emails a link to the new address. The account keeps the old one until
+  // the link is followed.
+  changeEmail(currentPassword: string, newEmail: string): Promise<void>;
+  // Also re-encrypts the user's private key with the new password. The key
+  // is unlocked with `keyPassphrase`, or the current password if not given;
+  // rejects with KeyPassphraseError before changing anything if that fails.
+  changePassword(currentPassword: string, newPassword: string, keyPassphrase?: string): Promise<void>;
+  // Lets the signed-in account also sign in with Google or GitHub
+  linkProvider(providerId: OAuthProviderId): Promise<AuthUser>;
+  secondFactors(): SecondFactor[];
+  // These need a recent sign-in: with the password, or for accounts without
+  // one a provider popup. Changing the email or password and removing a
+  // second factor reject with SecondFactorRequiredError for accounts with
+  // one; resolving the challenge makes the change.
+  startTotpEnrollment(currentPassword?: string): Promise<TotpEnrollment>;
+  unenrollSecondFactor(factorUid: string, currentPassword?: string): Promise<void>;
+}
+
+export interface GroupsUpdate {
+  groups: Group[];
+  // Groups the user has left or was removed from since the last update
+  removedIds: string[];
+}
+
+// What opening a link to a group the user's list doesn't have should show
+export type GroupAccess = 'member' | 'not-member' | 'not-found';
+
+export interface GroupsBackend {
+  subscribe(
+    uid: string,
+    onUpdate: (update: GroupsUpdate) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  checkAccess(groupId: string, uid: string): Promise<GroupAccess>;
+  create(uid: string, name: string, description: string): Promise<Group>;
+  // Opens the DM between the user and `otherUsername`, creating it the first time
+  openDirectMessage(uid: string, ownUsername: string, otherUsername: string): Promise<Group>;
+  promoteMember(groupId: string, actorUid: string, targetUid: string): Promise<void>;
+  demoteMember(groupId: string, actorUid: string, targetUid: string): Promise<void>;
+  removeMember(groupId: string, actorUid: string, targetUid: string): Promise<void>;
+  leave(groupId: string, uid: string): Promise<void>;
+  // The key version to encrypt with, creating a new one if the group has
+  // none yet or a former member holds the current one
+  currentKeyVersion(group: Group, uid: string): Promise<number>;
+}
+
+export interface MessagesUpdate {
+  // The messages in the window, newest first
+  messages: Message[];
+  // Messages deleted from inside the window. Ones that just fell out of it
+  // because newer messages arrived are not included.
+  removedIds: string[];
+  hasNewMessages: boolean;
+}
+
+export interface MessagePage {
+  // Newest first
+  messages: Message[];
+  hasMore: boolean;
+}
+
+export interface MessageJump extends MessagePage {
+  // Whether there are messages newer than the page, which loadNewer pages
+  // through
+  hasNewer: boolean;
+}
+
+export interface MessageEditor {
+  uid: string;
+  username: string;
+}
+
+export interface MessagesBackend {
+  newId(): string;
+  get(messageId: string): Promise<Message | null>;
+  // Keeps the newest `count` messages of a group (replies included) live
+  subscribeToLatest(
+    groupId: string,
+    count: number,
+    onUpdate: (update: MessagesUpdate) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  subscribeToReplies(
+    groupId: string,
+    parentId: string,
+    count: number,
+    onUpdate: (update: MessagesUpdate) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  loadOlder(groupId: string, before: Message, count: number): Promise<MessagePage>;
+  loadOlderReplies(groupId: string, parentId: string, before: Message, count: number): Promise<MessagePage>;
+  // The message with up to `count` messages on either side of it. Null if
+  // the message doesn't exist.
+  loadAround(groupId: string, messageId: string, count: number): Promise<MessageJump | null>;
+  // Oldest first, starting after `after` or at the group's first message
+  loadNewer(groupId: string, after: Message | null, count: number): Promise<MessagePage>;
+  // The group's newest message, replies included
+  latest(groupId: string): Promise<Message | null>;
+  // Messages edited or deleted after `since`, in no particular order
+  loadChangedSince(groupId: string, since: Date): Promise<Message[]>;
+  // Turns plaintext into the stored body, encrypting it if the backend does
+  sealBody(group: Group, uid: string, text: string): Promise<MessageBody>;
+  openBody(message: MessageBody & Pick<Message, 'groupId'>, uid: string): Promise<string>;
+  // Resolves once the message is stored. Sending the same draft again is
+  // safe; a replay never overwrites a message that already arrived.
+  send(draft: MessageDraft, options?: { isReplay?: boolean }): Promise<void>;
+  // Replaces the body, keeping the previous version in the edit history
+  edit(message: Message, body: MessageBody, mentions: string[], editor: MessageEditor): Promise<void>;
+  // Soft delete: the message stays as a placeholder without its content
+  remove(message: Message): Promise<void>;
+  toggleReaction(message: Message, emoji: string, uid: string): Promise<void>;
+}
+
+export interface InvitesBackend {
+  subscribe(
+    groupId: string,
+    onUpdate: (invites: Invite[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Resolves to the new invite code
+  create(groupId: string, actorUid: string, options: InviteOptions): Promise<string>;
+  revoke(code: string, actorUid: string): Promise<void>;
+  // Resolves to the id of the joined group
+  join(code: string, uid: string): Promise<string>;
+}
+
+export interface AttachmentsBackend {
+  // Encrypts the file with the group key before it leaves the device
+  upload(
+    file: File,
+    groupId: string,
+    keyVersion: number,
+    uid: string,
+    onProgress: (fraction: number) => void
+  ): Promise<Attachment>;
+  download(attachment: Attachment, groupId: string, uid: string): Promise<Blob>;
+  remove(attachment: Attachment): Promise<void>;
+}
+
+export interface ReadStateBackend {
+  // When the user last read the group, 0 if never
+  subscribe(
+    groupId: string,
+    uid: string,
+    onUpdate: (lastReadAt: number) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  subscribeToReceipts(
+    groupId: string,
+    onUpdate: (receipts: ReadReceipt[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  countUnread(groupId: string, since: number): Promise<number>;
+  markRead(groupId: string, uid: string, username: string): Promise<void>;
+}
+
+export interface TypingBackend {
+  // Entries stay until cleared, so stale ones have to be filtered out
+  subscribe(
+    groupId: string,
+    onUpdate: (entries: TypingEntry[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  setTyping(groupId: string, uid: string, username: string): Promise<void>;
+  clearTyping(groupId: string, uid: string): Promise<void>;
+}
+
+export interface MentionsBackend {
+  // The newest `count` entries of the user's inbox, newest first
+  subscribe(
+    uid: string,
+    count: number,
+    onUpdate: (mentions: Mention[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  markRead(uid: string, mentionIds: string[]): Promise<void>;
+}
+
+export interface NotificationsBackend {
+  subscribeToSettings(
+    uid: string,
+    onUpdate: (settings: NotificationSettings) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  setGroupLevel(uid: string, groupId: string, level: NotificationLevel): Promise<void>;
+  setDoNotDisturb(uid: string, doNotDisturb: boolean): Promise<void>;
+}
+
+export interface ChatBackend {
+  auth: AuthBackend;
+  account: AccountBackend;
+  groups: GroupsBackend;
+  messages: MessagesBackend;
+  invites: InvitesBackend;
+  attachments: AttachmentsBackend;
+  readState: ReadStateBackend;
+  typing: TypingBackend;
+  mentions: MentionsBackend;
+  notifications: NotificationsBackend;
+}
+
+// Both participants derive the same id, so a pair only ever has one DM
+export const getDirectMessageId = (uidA: string, uidB: string) =>
+  `dm_${[uidA, uidB].sort().join('_')}`;
@@ -0,0 +1,123 @@
+import {
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  Timestamp,
+  WithFieldValue
+} from 'firebase/firestore';
+import { Group, Invite, Mention, Message, MessageEdit, UserData } from '../types/chat';
+
+// Firestore documents <-> domain types. Timestamps become Dates on the way
+// in; Dates are stored as Timestamps by Firestore on the way out.
+
+const toDate = (value: unknown) =>
+  value instanceof Timestamp ? value.toDate() : undefined;
+
+// Firestore rejects undefined values, and ids and client-only flags aren't
+// stored in the document
+const toDocumentData = (model: object, omit: string[]) =>
+  Object.fromEntries(
+    Object.entries(model).filter(([key, value]) => value !== undefined && !omit.includes(key))
+  ) as DocumentData;
+
+export const messageConverter: FirestoreDataConverter<Message> = {
+  toFirestore: (message: WithFieldValue<Message>) =>
+    toDocumentData(message, ['id', 'pending']),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      content: data.content,
+      encrypted: data.encrypted,
+      senderId: data.senderId,
+      senderName: data.senderName,
+      // Null while a server timestamp is pending
+      timestamp: toDate(data.timestamp) ?? null,
+      groupId: data.groupId,
+      createdAt: data.createdAt,
+      editedAt: toDate(data.editedAt),
+      deletedAt: toDate(data.deletedAt),
+      edits: data.edits?.map((edit: DocumentData): MessageEdit => ({
+        content: edit.content,
+        encrypted: edit.encrypted,
+        editedAt: toDate(edit.editedAt) ?? new Date(0)
+      })),
+      parentId: data.parentId,
+      replyCount: data.replyCount,
+      lastReplyAt: toDate(data.lastReplyAt),
+      reactions: data.reactions,
+      attachments: data.attachments,
+      mentions: data.mentions,
+      pending: snapshot.metadata.hasPendingWrites
+    };
+  }
+};
+
+export const groupConverter: FirestoreDataConverter<Group> = {
+  toFirestore: (group: WithFieldValue<Group>) => toDocumentData(group, ['id']),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      // Groups created before DMs existed have no type
+      type: data.type ?? 'group',
+      name: data.name,
+      description: data.description,
+      createdBy: data.createdBy,
+      createdAt: toDate(data.createdAt) ?? new Date(),
+      members: data.members,
+      keyVersion: data.keyVersion,
+      lastMessageAt: toDate(data.lastMessageAt),
+      memberNames: data.memberNames,
+      roles: data.roles
+    };
+  }
+};
+
+export const inviteConverter: FirestoreDataConverter<Invite> = {
+  toFirestore: (invite: WithFieldValue<Invite>) => toDocumentData(invite, ['code']),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => {
+    const data = snapshot.data(options);
+    return {
+      code: snapshot.id,
+      groupId: data.groupId,
+      createdBy: data.createdBy,
+      expiresAt: toDate(data.expiresAt) ?? null,
+      maxUses: data.maxUses ?? null,
+      uses: data.uses ?? 0,
+      revokedAt: toDate(data.revokedAt)
+    };
+  }
+};
+
+export const mentionConverter: FirestoreDataConverter<Mention> = {
+  toFirestore: (mention: WithFieldValue<Mention>) => toDocumentData(mention, ['id']),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      messageId: data.messageId,
+      groupId: data.groupId,
+      parentId: data.parentId ?? null,
+      senderId: data.senderId,
+      senderName: data.senderName,
+      createdAt: toDate(data.createdAt) ?? new Date(),
+      readAt: toDate(data.readAt) ?? null
+    };
+  }
+};
+
+export const userDataConverter: FirestoreDataConverter<UserData> = {
+  toFirestore: (user: WithFieldValue<UserData>) => toDocumentData(user, []),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => {
+    const data = snapshot.data(options);
+    return {
+      username: data.username,
+      email: data.email,
+      emailVerified: data.emailVerified ?? false,
+      avatarUrl: data.avatarUrl,
+      bio: data.bio
+    };
+  }
+};
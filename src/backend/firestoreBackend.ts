@@ -0,0 +1,1162 @@
+import {
+  applyActionCode,
+  checkActionCode,
+  confirmPasswordReset,
+  createUserWithEmailAndPassword,
+  EmailAuthProvider,
+  GithubAuthProvider,
+  getIdToken,
+  getMultiFactorResolver,
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  linkWithPopup,
+  multiFactor,
+  MultiFactorError,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  reload,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  sendSignInLinkToEmail,
+  signInWithEmailAndPassword,
+  signInWithEmailLink,
+  signInWithPopup,
+  TotpMultiFactorGenerator,
+  updatePassword,
+  updateProfile,
+  User,
+  verifyBeforeUpdateEmail,
+  verifyPasswordResetCode
+} from 'firebase/auth';
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  DocumentData,
+  FieldPath,
+  FirestoreError,
+  getCountFromServer,
+  getDoc,
+  getDocFromServer,
+  getDocs,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  Query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  startAt,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  WriteBatch
+} from 'firebase/firestore';
+import { deleteObject, getBytes, ref, uploadBytesResumable } from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
+import { auth, db, storage } from '../config/firebase';
+import {
+  decryptBytesForGroup,
+  decryptForGroup,
+  encryptBytesForGroup,
+  encryptForGroup,
+  hasUnlockedKeys,
+  lockKeys,
+  prepareGroupKey,
+  rewrapPrivateKey,
+  rotateGroupKey,
+  saveWrappedPrivateKey,
+  unlockKeys
+} from '../utils/encryption';
+import { uploadAvatar } from '../utils/avatars';
+import { createBackupCodes, deleteBackupCodes, redeemBackupCode } from '../utils/backupCodes';
+import { isBackupCode } from '../utils/totp';
+import { OAUTH_PROVIDERS, hasProvider, hasVerifiedEmail } from '../utils/authProviders';
+import {
+  demoteMember,
+  leaveGroup,
+  promoteMember,
+  removeMember
+} from '../utils/groupMembers';
+import {
+  createInvite,
+  groupInvitesQuery,
+  joinWithInvite,
+  revokeInvite
+} from '../utils/invites';
+import { validateAttachment } from '../utils/attachments';
+import { Group, Mention, Message } from '../types/chat';
+import {
+  AccountBackend,
+  AttachmentsBackend,
+  AuthBackend,
+  ChatBackend,
+  GroupsBackend,
+  InvitesBackend,
+  KeyPassphraseError,
+  MentionsBackend,
+  MessagesBackend,
+  MessagesUpdate,
+  NotificationsBackend,
+  OAuthProviderId,
+  ProviderSignIn,
+  ReadStateBackend,
+  SecondFactorRequiredError,
+  TypingBackend,
+  UsernameTakenError,
+  getDirectMessageId
+} from './chatBackend';
+import {
+  groupConverter,
+  inviteConverter,
+  mentionConverter,
+  messageConverter,
+  userDataConverter
+} from './converters';
+
+const messagesCollection = collection(db, 'messages').withConverter(messageConverter);
+const groupsCollection = collection(db, 'groups').withConverter(groupConverter);
+const usersCollection = collection(db, 'users').withConverter(userDataConverter);
+
+// Stored in users/{uid}/mentions/{messageId} so each user has an inbox of
+// the messages that mention them, without querying every group they're in
+const mentionsCollection = (uid: string) =>
+  collection(db, 'users', uid, 'mentions').withConverter(mentionConverter);
+
+// Adds an inbox entry for every mentioned user except the sender
+const addMentionRecords = (
+  batch: WriteBatch,
+  mentionedUids: string[],
+  mention: Pick<Mention, 'messageId' | 'groupId' | 'parentId' | 'senderId' | 'senderName'>
+) => {
+  mentionedUids
+    .filter(uid => uid !== mention.senderId)
+    .forEach(uid => {
+      batch.set(doc(db, 'users', uid, 'mentions', mention.messageId), {
+        ...mention,
+        createdAt: serverTimestamp(),
+        readAt: null
+      });
+    });
+};
+
+// Takes the message out of the inboxes of users it no longer mentions, so
+// mentioning them again creates a new entry
+const removeMentionRecords = (
+  batch: WriteBatch,
+  mentionedUids: string[],
+  message: Pick<Message, 'id' | 'senderId'>
+) => {
+  mentionedUids
+    .filter(uid => uid !== message.senderId)
+    .forEach(uid => batch.delete(doc(db, 'users', uid, 'mentions', message.id)));
+};
+
+const providerFor = (providerId: OAuthProviderId) =>
+  providerId === 'google.com' ? new GoogleAuthProvider() : new GithubAuthProvider();
+
+// The rules only let the profile say the email is verified when the ID token
+// does, and a token from before a verification doesn't until it's refreshed
+const refreshEmailVerified = async (user: User) => {
+  if (user.emailVerified) {
+    await getIdToken(user, true);
+  }
+};
+
+// Claims the username and creates the profile in one transaction, so two
+// sign-ups can't both get a name and neither exists without the other. A
+// claim the account already holds is kept.
+const createUserDocument = async (user: User, username: string) => {
+  const usernameRef = doc(db, 'usernames', username.toLowerCase());
+  await refreshEmailVerified(user);
+
+  await runTransaction(db, async (transaction) => {
+    const usernameSnap = await transaction.get(usernameRef);
+    if (usernameSnap.exists() && usernameSnap.data().uid !== user.uid) {
+      throw new UsernameTakenError();
+    }
+
+    transaction.set(doc(db, 'users', user.uid), {
+      email: user.email,
+      username,
+      emailVerified: hasVerifiedEmail(user),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastLoginAt: new Date()
+    });
+    if (!usernameSnap.exists()) {
+      transaction.set(usernameRef, { uid: user.uid });
+    }
+  });
+};
+
+// A sign-up that failed between creating the account and its profile left
+// an account without one. Recreate it under the name the account was given;
+// if someone has taken that since, ChatsPage sends the user to pick another.
+const repairProfile = async (user: User) => {
+  if (!user.displayName) return;
+
+  try {
+    await createUserDocument(user, user.displayName);
+  } catch (error) {
+    console.error('Error repairing user profile:', error);
+  }
+};
+
+// The profile keeps a copy of the account's email. A change only applies
+// once the emailed link is followed, maybe on another device, so sign-ins
+// catch the profile up.
+const profileEmailChanges = (user: User, profile: DocumentData) =>
+  user.email && profile.email !== user.email
+    ? { email: user.email, emailVerified: hasVerifiedEmail(user), updatedAt: new Date() }
+    : {};
+
+// Provider and email-link sign-ins may have just created the account, in
+// which case there's no profile to update yet. There's no password to unlock
+// the encryption keys with either, so ChatsPage asks for the passphrase.
+const finishSignIn = async (
+  user: User,
+  profileChanges: Record<string, unknown> = {}
+): Promise<ProviderSignIn> => {
+  const userRef = doc(db, 'users', user.uid);
+  const userSnap = await getDoc(userRef);
+  if (!userSnap.exists()) {
+    return { user, needsProfile: true };
+  }
+
+  await updateDoc(userRef, {
+    ...profileEmailChanges(user, userSnap.data()),
+    ...profileChanges,
+    lastLoginAt: new Date()
+  });
+  return { user, needsProfile: false };
+};
+
+// Shown as the issuer in authenticator apps
+const TOTP_ISSUER = 'ReactAppDev';
+
+// Firebase rejects sign-ins of accounts with a second factor until a code
+// from the authenticator app resolves them. A backup code stands in for the
+// app's code, see utils/backupCodes. Other errors pass through.
+const toSecondFactorError = (
+  error: unknown,
+  afterSignIn: (user: User) => Promise<unknown>
+) => {
+  if (!(error instanceof FirebaseError) || error.code !== 'auth/multi-factor-auth-required') {
+    return error;
+  }
+
+  const resolver = getMultiFactorResolver(auth, error as MultiFactorError);
+  const hint = resolver.hints.find(hint => hint.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  if (!hint) return error;
+
+  return new SecondFactorRequiredError({
+    resolve: async (code) => {
+      if (!isBackupCode(code)) {
+        const { user } = await resolver.resolveSignIn(
+          TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code)
+        );
+        await afterSignIn(user);
+        return user;
+      }
+
+      const backupCode = await redeemBackupCode(code);
+      const { user } = await resolver.resolveSignIn(
+        TotpMultiFactorGenerator.assertionForSignIn(backupCode.factorUid, backupCode.totpCode)
+      );
+      try {
+        await backupCode.useUp();
+      } catch (error) {
+        console.error('Error using up backup code:', error);
+      }
+      await afterSignIn(user);
+      return user;
+    }
+  });
+};
+
+const afterPasswordSignIn = async (user: User, password: string) => {
+  const userRef = doc(db, 'users', user.uid);
+  const userSnap = await getDoc(userRef);
+  if (userSnap.exists()) {
+    await updateDoc(userRef, {
+      ...profileEmailChanges(user, userSnap.data()),
+      lastLoginAt: new Date()
+    });
+  } else {
+    await repairProfile(user);
+  }
+
+  // Unlock encryption keys on this device. ChatsPage asks for the
+  // password again if this fails, so don't block sign in on it.
+  try {
+    await unlockKeys(user.uid, password);
+  } catch (error) {
+    console.error('Error unlocking encryption keys:', error);
+  }
+};
+
+const firestoreAuth: AuthBackend = {
+  // Firebase keeps one User object per sign-in and updates it in place
+  currentUser: () => auth.currentUser,
+
+  onAuthStateChanged: (callback) =>
+    auth.onAuthStateChanged(async (user) => {
+      if (user) {
+        // Reload user to get latest emailVerified status
+        await user.reload();
+      }
+      callback(user);
+    }),
+
+  reloadUser: async () => {
+    if (auth.currentUser) {
+      await reload(auth.currentUser);
+    }
+    return auth.currentUser;
+  },
+
+  isUsernameTaken: async (username) =>
+    (await getDoc(doc(db, 'usernames', username.toLowerCase()))).exists(),
+
+  signUp: async ({ email, password, username }) => {
+    const { user } = await createUserWithEmailAndPassword(auth, email, password);
+    try {
+      await updateProfile(user, { displayName: username });
+      await createUserDocument(user, username);
+    } catch (error) {
+      // Take the account back out so the email can sign up again. If that
+      // fails too, signing in repairs the profile.
+      console.error('Error creating user profile:', error);
+      await user.delete().catch((deleteError) => {
+        console.error('Error removing incomplete account:', deleteError);
+      });
+      throw error;
+    }
+
+    // Generate the user's encryption key pair
+    await unlockKeys(user.uid, password);
+    await sendEmailVerification(user);
+    return user;
+  },
+
+  signIn: async (email, password) => {
+    try {
+      const { user } = await signInWithEmailAndPassword(auth, email, password);
+      await afterPasswordSignIn(user, password);
+      return user;
+    } catch (error) {
+      throw toSecondFactorError(error, user => afterPasswordSignIn(user, password));
+    }
+  },
+
+  signInWithProvider: async (providerId) => {
+    try {
+      const { user } = await signInWithPopup(auth, providerFor(providerId));
+      return await finishSignIn(user);
+    } catch (error) {
+      throw toSecondFactorError(error, finishSignIn);
+    }
+  },
+
+  sendSignInLink: (email, continueUrl) =>
+    sendSignInLinkToEmail(auth, email, { url: continueUrl, handleCodeInApp: true }),
+
+  isSignInLink: (url) => isSignInWithEmailLink(auth, url),
+
+  // Firebase marks the address verified, record it on the profile too
+  signInWithLink: async (email, url) => {
+    const verified = { emailVerified: true, verifiedAt: new Date() };
+    try {
+      const { user } = await signInWithEmailLink(auth, email, url);
+      return await finishSignIn(user, verified);
+    } catch (error) {
+      throw toSecondFactorError(error, user => finishSignIn(user, verified));
+    }
+  },
+
+  completeProfile: async ({ username, passphrase }) => {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('Not signed in');
+    }
+
+    await updateProfile(user, { displayName: username });
+    await createUserDocument(user, username);
+    await unlockKeys(user.uid, passphrase);
+  },
+
+  signOut: async () => {
+    if (auth.currentUser) {
+      await lockKeys(auth.currentUser.uid);
+    }
+    await auth.signOut();
+  },
+
+  sendPasswordReset: (email) => sendPasswordResetEmail(auth, email),
+
+  sendVerificationEmail: async () => {
+    const user = auth.currentUser;
+    if (user && !user.emailVerified) {
+      await sendEmailVerification(user);
+    }
+  },
+
+  verifyPasswordResetCode: (code) => verifyPasswordResetCode(auth, code),
+
+  confirmPasswordReset: (code, newPassword) => confirmPasswordReset(auth, code, newPassword),
+
+  applyEmailActionCode: async (code) => {
+    const { operation, data } = await checkActionCode(auth, code);
+    await applyActionCode(auth, code);
+
+    // The link may be opened signed out, or on another device; VerifyEmail
+    // picks a verification up there by reloading, and signing in catches the
+    // profile up with a changed address
+    const user = auth.currentUser;
+    if (user && (operation === 'RECOVER_EMAIL' || operation === 'VERIFY_AND_CHANGE_EMAIL')) {
+      try {
+        // Changing the address can end the session, in which case this fails
+        await reload(user);
+        if (data.email && user.email === data.email) {
+          await refreshEmailVerified(user);
+          await updateDoc(doc(db, 'users', user.uid), {
+            email: data.email,
+            emailVerified: hasVerifiedEmail(user),
+            updatedAt: new Date()
+          });
+        }
+      } catch (error) {
+        console.error('Error updating profile email:', error);
+      }
+    } else if (user) {
+      await reload(user);
+    }
+    return data.email ?? null;
+  },
+
+  markEmailVerified: async (uid) => {
+    if (auth.currentUser?.uid === uid) {
+      await refreshEmailVerified(auth.currentUser);
+    }
+    await updateDoc(doc(db, 'users', uid), {
+      emailVerified: true,
+      verifiedAt: new Date()
+    });
+  },
+
+  getProfile: async (uid) => (await getDoc(doc(usersCollection, uid))).data() ?? null,
+
+  findUidByUsername: async (username) => {
+    const usernameSnap = await getDoc(doc(db, 'usernames', username.toLowerCase()));
+    return (usernameSnap.data()?.uid as string | undefined) ?? null;
+  },
+
+  hasUnlockedKeys,
+
+  unlockKeys
+};
+
+// Firebase only changes the email, password or second factors of a recent
+// sign-in, so confirm the current password first. Accounts without one
+// sign in with their provider again.
+const reauthenticate = async (password?: string) => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('Not signed in');
+  }
+
+  if (password !== undefined && user.email) {
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+    return user;
+  }
+
+  const provider = OAUTH_PROVIDERS.find(provider => hasProvider(user, provider.id));
+  if (!provider) {
+    throw new Error('Enter your current password');
+  }
+  await reauthenticateWithPopup(user, providerFor(provider.id));
+  return user;
+};
+
+// Reauthenticating an account with a second factor needs a code from the
+// authenticator app too. Resolving the challenge goes on with the change.
+const withRecentSignIn = async (
+  password: string | undefined,
+  change: (user: User) => Promise<void>
+) => {
+  let user: User;
+  try {
+    user = await reauthenticate(password);
+  } catch (error) {
+    throw toSecondFactorError(error, change);
+  }
+  await change(user);
+};
+
+const firestoreAccount: AccountBackend = {
+  rename: async (uid, username) => {
+    const userRef = doc(db, 'users', uid);
+    const newNameRef = doc(db, 'usernames', username.toLowerCase());
+
+    await runTransaction(db, async (transaction) => {
+      const userSnap = await transaction.get(userRef);
+      const nameSnap = await transaction.get(newNameRef);
+      if (nameSnap.exists() && nameSnap.data().uid !== uid) {
+        throw new UsernameTakenError();
+      }
+
+      // Changing only the capitalization keeps the same claim
+      const oldName = (userSnap.data()?.username as string | undefined)?.toLowerCase();
+      if (oldName && oldName !== newNameRef.id) {
+        transaction.delete(doc(db, 'usernames', oldName));
+      }
+      if (!nameSnap.exists()) {
+        transaction.set(newNameRef, { uid });
+      }
+      transaction.update(userRef, { username, updatedAt: new Date() });
+    });
+
+    if (auth.currentUser?.uid === uid) {
+      await updateProfile(auth.currentUser, { displayName: username });
+    }
+
+    // DMs show the other member's name from the group
+    const groupsSnap = await getDocs(query(groupsCollection, where('members', 'array-contains', uid)));
+    const batch = writeBatch(db);
+    groupsSnap.docs
+      .filter(groupDoc => groupDoc.data().type === 'dm')
+      .forEach(groupDoc => batch.update(groupDoc.ref, { [`memberNames.${uid}`]: username }));
+    await batch.commit();
+  },
+
+  updateProfile: (uid, { bio }) =>
+    updateDoc(doc(db, 'users', uid), {
+      bio: bio?.trim() || deleteField(),
+      updatedAt: new Date()
+    }),
+
+  uploadAvatar: async (uid, file) => {
+    const avatarUrl = await uploadAvatar(uid, file);
+    await updateDoc(doc(db, 'users', uid), { avatarUrl, updatedAt: new Date() });
+    if (auth.currentUser?.uid === uid) {
+      await updateProfile(auth.currentUser, { photoURL: avatarUrl });
+    }
+    return avatarUrl;
+  },
+
+  changeEmail: (currentPassword, newEmail) =>
+    withRecentSignIn(currentPassword, user => verifyBeforeUpdateEmail(user, newEmail)),
+
+  changePassword: (currentPassword, newPassword, keyPassphrase = currentPassword) =>
+    withRecentSignIn(currentPassword, async (user) => {
+      let encryptedPrivateKey;
+      try {
+        encryptedPrivateKey = await rewrapPrivateKey(user.uid, keyPassphrase, newPassword);
+      } catch (error) {
+        // Unwrapping with the wrong passphrase fails to decrypt
+        if (error instanceof DOMException && error.name === 'OperationError') {
+          throw new KeyPassphraseError();
+        }
+        throw error;
+      }
+
+      await updatePassword(user, newPassword);
+      if (encryptedPrivateKey) {
+        await saveWrappedPrivateKey(user.uid, encryptedPrivateKey);
+      }
+    }),
+
+  linkProvider: async (providerId) => {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('Not signed in');
+    }
+    await linkWithPopup(user, providerFor(providerId));
+    return user;
+  },
+
+  secondFactors: () =>
+    auth.currentUser
+      ? multiFactor(auth.currentUser).enrolledFactors.map(factor => ({
+        uid: factor.uid,
+        displayName: factor.displayName ?? null,
+        enrolledAt: new Date(factor.enrollmentTime)
+      }))
+      : [],
+
+  startTotpEnrollment: async (currentPassword) => {
+    const user = await reauthenticate(currentPassword);
+    const session = await multiFactor(user).getSession();
+    const secret = await TotpMultiFactorGenerator.generateSecret(session);
+
+    return {
+      secretKey: secret.secretKey,
+      otpauthUrl: secret.generateQrCodeUrl(user.email ?? user.uid, TOTP_ISSUER),
+      finish: async (code, displayName) => {
+        const enrolledBefore = multiFactor(user).enrolledFactors.map(factor => factor.uid);
+        await multiFactor(user).enroll(
+          TotpMultiFactorGenerator.assertionForEnrollment(secret, code),
+          displayName
+        );
+
+        const factor = multiFactor(user).enrolledFactors
+          .find(factor => !enrolledBefore.includes(factor.uid));
+        if (!factor) {
+          throw new Error('Authenticator app not found after enrolling');
+        }
+        return createBackupCodes(user.uid, factor.uid, {
+          secretKey: secret.secretKey,
+          hashingAlgorithm: secret.hashingAlgorithm,
+          codeLength: secret.codeLength,
+          codeIntervalSeconds: secret.codeIntervalSeconds
+        });
+      }
+    };
+  },
+
+  unenrollSecondFactor: (factorUid, currentPassword) =>
+    withRecentSignIn(currentPassword, async (user) => {
+      await multiFactor(user).unenroll(factorUid);
+      try {
+        await deleteBackupCodes(user.uid, factorUid);
+      } catch (error) {
+        console.error('Error deleting backup codes:', error);
+      }
+    })
+};
+
+const firestoreGroups: GroupsBackend = {
+  subscribe: (uid, onUpdate, onError) =>
+    onSnapshot(
+      query(groupsCollection, where('members', 'array-contains', uid)),
+      (snapshot) => {
+        onUpdate({
+          groups: snapshot.docs.map(doc => doc.data()),
+          removedIds: snapshot.docChanges()
+            .filter(change => change.type === 'removed')
+            .map(change => change.doc.id)
+        });
+      },
+      onError
+    ),
+
+  // The rules only let members read a group, so a denied read means the
+  // group exists
+  checkAccess: async (groupId, uid) => {
+    try {
+      const groupSnap = await getDoc(doc(groupsCollection, groupId));
+      if (!groupSnap.exists()) return 'not-found';
+      return groupSnap.data().members.includes(uid) ? 'member' : 'not-member';
+    } catch (error) {
+      if (error instanceof FirestoreError && error.code === 'permission-denied') {
+        return 'not-member';
+      }
+      throw error;
+    }
+  },
+
+  create: async (uid, name, description) => {
+    const groupRef = doc(groupsCollection);
+    const group: Group = {
+      id: groupRef.id,
+      type: 'group',
+      name,
+      description,
+      createdBy: uid,
+      createdAt: new Date(),
+      members: [uid],
+      roles: { [uid]: 'owner' }
+    };
+
+    await setDoc(groupRef, { ...group, createdAt: serverTimestamp() });
+    const keyVersion = await rotateGroupKey(group.id, group.members, uid);
+    return { ...group, keyVersion };
+  },
+
+  openDirectMessage: async (uid, ownUsername, otherUsername) => {
+    const username = otherUsername.trim().replace(/^@/, '');
+    const otherUid = await firestoreAuth.findUidByUsername(username);
+    if (!otherUid) {
+      throw new Error('No user with that username');
+    }
+    if (otherUid === uid) {
+      throw new Error("You can't send a direct message to yourself");
+    }
+
+    const otherProfile = await firestoreAuth.getProfile(otherUid);
+    const dmRef = doc(groupsCollection, getDirectMessageId(uid, otherUid));
+    const dm: Group = {
+      id: dmRef.id,
+      type: 'dm',
+      name: '',
+      description: '',
+      createdBy: uid,
+      createdAt: new Date(),
+      members: [uid, otherUid],
+      memberNames: {
+        [uid]: ownUsername,
+        [otherUid]: otherProfile?.username ?? username
+      }
+    };
+
+    const existing = await runTransaction(db, async (transaction) => {
+      const existingSnap = await transaction.get(dmRef);
+      if (existingSnap.exists()) return existingSnap.data();
+      transaction.set(dmRef, { ...dm, createdAt: serverTimestamp() });
+      return null;
+    });
+
+    return existing ?? {
+      ...dm,
+      keyVersion: await rotateGroupKey(dm.id, dm.members, uid)
+    };
+  },
+
+  promoteMember: async (groupId, actorUid, targetUid) => {
+    await promoteMember(groupId, actorUid, targetUid);
+  },
+
+  demoteMember: async (groupId, actorUid, targetUid) => {
+    await demoteMember(groupId, actorUid, targetUid);
+  },
+
+  removeMember,
+
+  leave: leaveGroup,
+
+  currentKeyVersion: (group, uid) =>
+    prepareGroupKey(group.id, group.members, group.keyVersion, uid)
+};
+
+// Listens to a window of the newest messages. Snapshots include metadata
+// changes so pending messages are reported again once they are acknowledged.
+const subscribeToWindow = (
+  windowQuery: Query<Message>,
+  onUpdate: (update: MessagesUpdate) => void,
+  onError?: (error: Error) => void
+) =>
+  onSnapshot(windowQuery, { includeMetadataChanges: true }, (snapshot) => {
+    const messages = snapshot.docs.map(doc => doc.data());
+    // Docs that drop off the end of the window are older than everything in
+    // it; only docs removed from inside the window were actually deleted
+    const oldestInWindow = messages[messages.length - 1]?.timestamp?.getTime();
+
+    onUpdate({
+      messages,
+      removedIds: snapshot.docChanges()
+        .filter(change => change.type === 'removed')
+        .map(change => change.doc.data())
+        .filter(message => oldestInWindow === undefined
+          || (message.timestamp?.getTime() ?? Infinity) >= oldestInWindow)
+        .map(message => message.id),
+      hasNewMessages: snapshot.docChanges().some(change => change.type === 'added')
+    });
+  }, onError);
+
+const loadPage = async (pageQuery: Query<Message>, count: number) => {
+  const snapshot = await getDocs(pageQuery);
+  return {
+    messages: snapshot.docs.map(doc => doc.data()),
+    hasMore: snapshot.docs.length === count
+  };
+};
+
+// Queries that filter on the group and order or filter on another field need
+// the composite indexes in firestore.indexes.json. The emulator doesn't
+// enforce them, so add one there with every new query shape.
+const groupMessagesQuery = (groupId: string) =>
+  query(messagesCollection, where('groupId', '==', groupId), orderBy('timestamp', 'desc'));
+
+const groupMessagesOldestFirstQuery = (groupId: string) =>
+  query(messagesCollection, where('groupId', '==', groupId), orderBy('timestamp', 'asc'));
+
+// Filtering on the group as well lets the security rules check membership
+const repliesQuery = (groupId: string, parentId: string) =>
+  query(
+    messagesCollection,
+    where('groupId', '==', groupId),
+    where('parentId', '==', parentId),
+    orderBy('timestamp', 'desc')
+  );
+
+const firestoreMessages: MessagesBackend = {
+  newId: () => doc(messagesCollection).id,
+
+  get: async (messageId) => (await getDoc(doc(messagesCollection, messageId))).data() ?? null,
+
+  subscribeToLatest: (groupId, count, onUpdate, onError) =>
+    subscribeToWindow(query(groupMessagesQuery(groupId), limit(count)), onUpdate, onError),
+
+  subscribeToReplies: (groupId, parentId, count, onUpdate, onError) =>
+    subscribeToWindow(query(repliesQuery(groupId, parentId), limit(count)), onUpdate, onError),
+
+  loadOlder: async (groupId, before, count) => {
+    const cursor = await getDoc(doc(messagesCollection, before.id));
+    return loadPage(query(groupMessagesQuery(groupId), startAfter(cursor), limit(count)), count);
+  },
+
+  loadOlderReplies: async (groupId, parentId, before, count) => {
+    const cursor = await getDoc(doc(messagesCollection, before.id));
+    return loadPage(query(repliesQuery(groupId, parentId), startAfter(cursor), limit(count)), count);
+  },
+
+  loadAround: async (groupId, messageId, count) => {
+    const target = await getDoc(doc(messagesCollection, messageId));
+    if (!target.exists()) return null;
+
+    // The target and the newer messages come oldest first
+    const [newer, older] = await Promise.all([
+      getDocs(query(groupMessagesOldestFirstQuery(groupId), startAt(target), limit(count + 1))),
+      getDocs(query(groupMessagesQuery(groupId), startAfter(target), limit(count)))
+    ]);
+    return {
+      messages: [...newer.docs].reverse().concat(older.docs).map(doc => doc.data()),
+      hasMore: older.docs.length === count,
+      hasNewer: newer.docs.length === count + 1
+    };
+  },
+
+  loadNewer: async (groupId, after, count) => {
+    const cursor = after && await getDoc(doc(messagesCollection, after.id));
+    return loadPage(query(
+      groupMessagesOldestFirstQuery(groupId),
+      ...(cursor ? [startAfter(cursor)] : []),
+      limit(count)
+    ), count);
+  },
+
+  latest: async (groupId) => {
+    const snapshot = await getDocs(query(groupMessagesQuery(groupId), limit(1)));
+    return snapshot.docs[0]?.data() ?? null;
+  },
+
+  // A message edited and later deleted matches both queries
+  loadChangedSince: async (groupId, since) => {
+    const changedAfter = (field: 'editedAt' | 'deletedAt') =>
+      getDocs(query(
+        messagesCollection,
+        where('groupId', '==', groupId),
+        where(field, '>', Timestamp.fromDate(since))
+      ));
+
+    const snapshots = await Promise.all([changedAfter('editedAt'), changedAfter('deletedAt')]);
+    const changed = new Map(
+      snapshots.flatMap(snapshot => snapshot.docs).map(doc => [doc.id, doc.data()])
+    );
+    return [...changed.values()];
+  },
+
+  sealBody: async (group, uid, text) => {
+    const keyVersion = await firestoreGroups.currentKeyVersion(group, uid);
+    return { encrypted: await encryptForGroup(group.id, keyVersion, uid, text) };
+  },
+
+  openBody: async (message, uid) =>
+    message.encrypted
+      ? decryptForGroup(message.groupId, uid, message.encrypted)
+      : message.content ?? '',
+
+  // Writes the message together with the group's activity time, the parent's
+  // thread summary and mention inbox entries
+  send: async (draft, { isReplay = false } = {}) => {
+    const messageRef = doc(messagesCollection, draft.id);
+
+    // An earlier attempt may have reached the server before the page went
+    // away. Writing again would overwrite reactions or edits made since.
+    if (isReplay && (await getDocFromServer(messageRef)).exists()) {
+      return;
+    }
+
+    const batch = writeBatch(db);
+    batch.set(messageRef, {
+      id: draft.id,
+      content: draft.content,
+      encrypted: draft.encrypted,
+      attachments: draft.attachments?.length ? draft.attachments : undefined,
+      mentions: draft.mentions?.length ? draft.mentions : undefined,
+      senderId: draft.senderId,
+      senderName: draft.senderName,
+      groupId: draft.groupId,
+      parentId: draft.parentId,
+      timestamp: serverTimestamp(),
+      createdAt: draft.createdAt // Fallback timestamp
+    });
+    if (draft.parentId) {
+      batch.update(doc(db, 'messages', draft.parentId), {
+        replyCount: increment(1),
+        lastReplyAt: serverTimestamp()
+      });
+    }
+    // Bump the group's activity time so other members see it as unread
+    batch.update(doc(db, 'groups', draft.groupId), {
+      lastMessageAt: serverTimestamp()
+    });
+    addMentionRecords(batch, draft.mentions ?? [], {
+      messageId: draft.id,
+      groupId: draft.groupId,
+      parentId: draft.parentId ?? null,
+      senderId: draft.senderId,
+      senderName: draft.senderName
+    });
+    await batch.commit();
+  },
+
+  edit: async (message, body, mentions, editor) => {
+    const previousVersion = {
+      ...(message.encrypted
+        ? { encrypted: message.encrypted }
+        : { content: message.content ?? '' }),
+      // serverTimestamp() isn't allowed inside arrays
+      editedAt: Timestamp.now()
+    };
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'messages', message.id), {
+      encrypted: body.encrypted ?? deleteField(),
+      content: body.content ?? deleteField(),
+      mentions: mentions.length > 0 ? mentions : deleteField(),
+      editedAt: serverTimestamp(),
+      edits: arrayUnion(previousVersion)
+    });
+    // Only users newly mentioned by the edit get an inbox entry
+    addMentionRecords(
+      batch,
+      mentions.filter(mentionedUid => !message.mentions?.includes(mentionedUid)),
+      {
+        messageId: message.id,
+        groupId: message.groupId,
+        parentId: message.parentId ?? null,
+        senderId: editor.uid,
+        senderName: editor.username
+      }
+    );
+    removeMentionRecords(
+      batch,
+      (message.mentions ?? []).filter(mentionedUid => !mentions.includes(mentionedUid)),
+      message
+    );
+    await batch.commit();
+  },
+
+  remove: async (message) => {
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'messages', message.id), {
+      encrypted: deleteField(),
+      content: deleteField(),
+      edits: deleteField(),
+      attachments: deleteField(),
+      deletedAt: serverTimestamp()
+    });
+    removeMentionRecords(batch, message.mentions ?? [], message);
+    await batch.commit();
+  },
+
+  // arrayUnion/arrayRemove keep concurrent reactions from overwriting each other
+  toggleReaction: (message, emoji, uid) =>
+    updateDoc(
+      doc(db, 'messages', message.id),
+      new FieldPath('reactions', emoji),
+      message.reactions?.[emoji]?.includes(uid) ? arrayRemove(uid) : arrayUnion(uid)
+    )
+};
+
+const firestoreInvites: InvitesBackend = {
+  subscribe: (groupId, onUpdate, onError) =>
+    onSnapshot(
+      groupInvitesQuery(groupId).withConverter(inviteConverter),
+      (snapshot) => onUpdate(snapshot.docs.map(doc => doc.data())),
+      onError
+    ),
+
+  create: createInvite,
+
+  revoke: revokeInvite,
+
+  join: joinWithInvite
+};
+
+// Storage only ever sees the ciphertext
+const firestoreAttachments: AttachmentsBackend = {
+  upload: async (file, groupId, keyVersion, uid, onProgress) => {
+    validateAttachment(file);
+
+    const { ciphertext, iv } = await encryptBytesForGroup(
+      groupId,
+      keyVersion,
+      uid,
+      await file.arrayBuffer()
+    );
+
+    const path = `attachments/${groupId}/${uid}/${crypto.randomUUID()}`;
+    const task = uploadBytesResumable(ref(storage, path), ciphertext, {
+      contentType: 'application/octet-stream'
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      task.on(
+        'state_changed',
+        (snapshot) => onProgress(snapshot.bytesTransferred / snapshot.totalBytes),
+        reject,
+        () => resolve()
+      );
+    });
+
+    return {
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      path,
+      iv,
+      keyVersion
+    };
+  },
+
+  download: async (attachment, groupId, uid) => {
+    const ciphertext = await getBytes(ref(storage, attachment.path));
+    const plaintext = await decryptBytesForGroup(
+      groupId,
+      attachment.keyVersion,
+      uid,
+      ciphertext,
+      attachment.iv
+    );
+    return new Blob([plaintext], { type: attachment.type });
+  },
+
+  remove: (attachment) => deleteObject(ref(storage, attachment.path))
+};
+
+// Each member's read state is stored in groups/{groupId}/readState/{uid}
+const firestoreReadState: ReadStateBackend = {
+  subscribe: (groupId, uid, onUpdate, onError) =>
+    onSnapshot(
+      doc(db, 'groups', groupId, 'readState', uid),
+      (snapshot) => {
+        const data = snapshot.data({ serverTimestamps: 'estimate' });
+        onUpdate(data?.lastReadAt?.toMillis() ?? 0);
+      },
+      onError
+    ),
+
+  subscribeToReceipts: (groupId, onUpdate, onError) =>
+    onSnapshot(
+      collection(db, 'groups', groupId, 'readState'),
+      (snapshot) => {
+        onUpdate(snapshot.docs.map(doc => {
+          const data = doc.data({ serverTimestamps: 'estimate' });
+          return {
+            uid: doc.id,
+            username: data.username ?? '',
+            lastReadAt: data.lastReadAt?.toMillis() ?? 0
+          };
+        }));
+      },
+      onError
+    ),
+
+  countUnread: async (groupId, since) => {
+    const snapshot = await getCountFromServer(query(
+      collection(db, 'messages'),
+      where('groupId', '==', groupId),
+      where('timestamp', '>', Timestamp.fromMillis(since))
+    ));
+    return snapshot.data().count;
+  },
+
+  markRead: (groupId, uid, username) =>
+    setDoc(doc(db, 'groups', groupId, 'readState', uid), {
+      uid,
+      username,
+      lastReadAt: serverTimestamp()
+    }, { merge: true })
+};
+
+// Short-lived typing state stored in groups/{groupId}/typing/{uid}
+const firestoreTyping: TypingBackend = {
+  subscribe: (groupId, onUpdate, onError) =>
+    onSnapshot(
+      collection(db, 'groups', groupId, 'typing'),
+      (snapshot) => {
+        onUpdate(snapshot.docs.map(doc => {
+          const data = doc.data({ serverTimestamps: 'estimate' });
+          return {
+            uid: doc.id,
+            username: data.username ?? '',
+            updatedAt: data.updatedAt?.toMillis() ?? 0
+          };
+        }));
+      },
+      onError
+    ),
+
+  setTyping: (groupId, uid, username) =>
+    setDoc(doc(db, 'groups', groupId, 'typing', uid), {
+      username,
+      updatedAt: serverTimestamp()
+    }),
+
+  clearTyping: (groupId, uid) => deleteDoc(doc(db, 'groups', groupId, 'typing', uid))
+};
+
+const firestoreMentions: MentionsBackend = {
+  subscribe: (uid, count, onUpdate, onError) =>
+    onSnapshot(
+      query(mentionsCollection(uid), orderBy('createdAt', 'desc'), limit(count)),
+      (snapshot) => {
+        onUpdate(snapshot.docs.map(doc => doc.data({ serverTimestamps: 'estimate' })));
+      },
+      onError
+    ),
+
+  markRead: async (uid, mentionIds) => {
+    const batch = writeBatch(db);
+    mentionIds.forEach(mentionId => {
+      batch.update(doc(db, 'users', uid, 'mentions', mentionId), {
+        readAt: serverTimestamp()
+      });
+    });
+    await batch.commit();
+  }
+};
+
+// Settings live on the user's profile
+const firestoreNotifications: NotificationsBackend = {
+  subscribeToSettings: (uid, onUpdate, onError) =>
+    onSnapshot(
+      doc(db, 'users', uid),
+      (snapshot) => onUpdate(snapshot.data()?.notificationSettings ?? {}),
+      onError
+    ),
+
+  setGroupLevel: (uid, groupId, level) =>
+    updateDoc(doc(db, 'users', uid), {
+      // 'all' is the default, so it doesn't need an entry
+      [`notificationSettings.groups.${groupId}`]: level === 'all' ? deleteField() : level
+    }),
+
+  setDoNotDisturb: (uid, doNotDisturb) =>
+    updateDoc(doc(db, 'users', uid), {
+      'notificationSettings.doNotDisturb': doNotDisturb
+    })
+};
+
+export const firestoreBackend: ChatBackend = {
+  auth: firestoreAuth,
+  account: firestoreAccount,
+  groups: firestoreGroups,
+  messages: firestoreMessages,
+  invites: firestoreInvites,
+  attachments: firestoreAttachments,
+  readState: firestoreReadState,
+  typing: firestoreTyping,
+  mentions: firestoreMentions,
+  notifications: firestoreNotifications
+};
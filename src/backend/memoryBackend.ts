@@ -0,0 +1,1236 @@
+import {
+  canRemoveMember,
+  getRole,
+  isAdmin,
+  GroupPermissionError
+} from '../utils/groupRoles';
+import { generateCode, isInviteActive, InviteError } from '../utils/inviteCodes';
+import { validateAvatar } from '../utils/avatarFiles';
+import { hasVerifiedEmail } from '../utils/authProviders';
+import {
+  BASE32_ALPHABET,
+  generateBackupCodes,
+  isBackupCode,
+  normalizeBackupCode
+} from '../utils/totp';
+import { validateAttachment } from '../utils/attachments';
+import {
+  Group,
+  GroupRole,
+  Invite,
+  Mention,
+  Message,
+  ReadReceipt,
+  TypingEntry,
+  UserData
+} from '../types/chat';
+import { NotificationSettings } from '../types/user';
+import {
+  AuthUser,
+  ChatBackend,
+  InvalidBackupCodeError,
+  KeyPassphraseError,
+  MessagesUpdate,
+  OAuthProviderId,
+  SecondFactor,
+  SecondFactorRequiredError,
+  UsernameTakenError,
+  getDirectMessageId
+} from './chatBackend';
+
+// Keeps everything in memory for running the UI and tests without Firebase.
+// Messages and attachments are stored as plaintext.
+
+interface MemoryAccount {
+  uid: string;
+  email: string;
+  // Null for accounts that only sign in with a provider
+  password: string | null;
+  // Stands in for the password the encryption keys are locked with
+  passphrase: string;
+  // Empty until the profile is created
+  username: string;
+  emailVerified: boolean;
+  providers: OAuthProviderId[];
+  secondFactors: SecondFactor[];
+}
+
+export interface MemoryBackend extends ChatBackend {
+  // Marks the account's email as verified, like following the emailed link
+  verifyEmail(uid: string): void;
+  // The last sign-in link sendSignInLink would have emailed to the address
+  signInLinkFor(email: string): string | null;
+  // The oobCode of the last action link (password reset, verification, or
+  // confirming or undoing an email change) that would have been emailed to
+  // the address
+  actionCodeFor(email: string): string | null;
+}
+
+interface MemoryActionCode {
+  mode: 'resetPassword' | 'verifyEmail' | 'recoverEmail' | 'verifyAndChangeEmail';
+  uid: string;
+  // Where the link was sent. For recoverEmail that's the address it restores,
+  // for verifyAndChangeEmail the one it changes to.
+  email: string;
+}
+
+// Mirrors the shape of Firebase auth errors so the pages can switch on `code`
+const authError = (code: string, message: string) =>
+  Object.assign(new Error(message), { code });
+
+const sameItems = <T>(a: T[], b: T[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+const newestFirst = (a: Message, b: Message) =>
+  (b.timestamp?.getTime() ?? 0) - (a.timestamp?.getTime() ?? 0);
+
+const assertMember = (group: Group, uid: string) => {
+  if (!group.members.includes(uid)) {
+    throw new GroupPermissionError('You are not a member of this group');
+  }
+};
+
+const assertOwner = (group: Group, uid: string) => {
+  assertMember(group, uid);
+  if (getRole(group, uid) !== 'owner') {
+    throw new GroupPermissionError('Only a group owner can do that');
+  }
+};
+
+const withoutMember = (group: Group, uid: string) => {
+  const roles: Record<string, GroupRole> = { ...group.roles };
+  delete roles[uid];
+  return { ...group, members: group.members.filter(member => member !== uid), roles };
+};
+
+// Stands in for a key rotation; the version still changes on membership
+// changes so the UI behaves the same
+const withNewKey = (group: Group): Group =>
+  ({ ...group, keyVersion: (group.keyVersion ?? 0) + 1 });
+
+export const createMemoryBackend = (): MemoryBackend => {
+  const accounts = new Map<string, MemoryAccount>();
+  const profiles = new Map<string, UserData>();
+  const usernames = new Map<string, string>();
+  const unlockedKeys = new Set<string>();
+  const groups = new Map<string, Group>();
+  // Groups whose key a former member holds
+  const staleKeys = new Set<string>();
+  const messages = new Map<string, Message>();
+  const invites = new Map<string, Invite>();
+  // Unused sign-in links and the address each was sent to
+  const signInLinks = new Map<string, string>();
+  const actionCodes = new Map<string, MemoryActionCode>();
+  const files = new Map<string, Blob>();
+  // Unused backup codes, normalized, and the second factor each stands in for
+  const backupCodes = new Map<string, { uid: string; factorUid: string }>();
+  // Keyed by group, then by user
+  const readStates = new Map<string, Map<string, ReadReceipt>>();
+  const typing = new Map<string, Map<string, TypingEntry>>();
+  const mentionInboxes = new Map<string, Mention[]>();
+  const notificationSettings = new Map<string, NotificationSettings>();
+
+  let currentUser: AuthUser | null = null;
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+  // Every subscription re-checks its data after any write
+  const listeners = new Set<() => void>();
+
+  let lastTime = 0;
+  // Strictly increasing, so messages sent within a millisecond keep their order
+  const now = () => {
+    lastTime = Math.max(Date.now(), lastTime + 1);
+    return new Date(lastTime);
+  };
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const watch = (listener: () => void) => {
+    listeners.add(listener);
+    listener();
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const setCurrentUser = (account: MemoryAccount | null) => {
+    currentUser = account && {
+      uid: account.uid,
+      email: account.email,
+      displayName: account.username || null,
+      emailVerified: account.emailVerified,
+      providerData: [
+        ...(account.password === null ? [] : ['password']),
+        ...account.providers
+      ].map(providerId => ({ providerId, email: account.email }))
+    };
+    authListeners.forEach(listener => listener(currentUser));
+  };
+
+  const sendActionCode = (actionCode: MemoryActionCode) => {
+    actionCodes.set(crypto.randomUUID(), actionCode);
+  };
+
+  const redeemActionCode = (code: string, mode: MemoryActionCode['mode']) => {
+    const actionCode = actionCodes.get(code);
+    if (!actionCode || actionCode.mode !== mode) {
+      throw authError('auth/invalid-action-code', 'The code is invalid or was already used');
+    }
+    actionCodes.delete(code);
+    return actionCode;
+  };
+
+  const getAccount = (uid: string) => {
+    const account = accounts.get(uid);
+    if (!account) {
+      throw new Error('No such account');
+    }
+    return account;
+  };
+
+  // Stands in for reauthenticating the signed-in account. Accounts without
+  // a password would sign in with their provider again, which always works.
+  const checkPassword = (password?: string) => {
+    const account = currentUser && accounts.get(currentUser.uid);
+    if (!account) {
+      throw new Error('Not signed in');
+    }
+    if (password === undefined && account.password !== null) {
+      throw new Error('Enter your current password');
+    }
+    if (password !== undefined && account.password !== password) {
+      throw authError('auth/wrong-password', 'Invalid password');
+    }
+    return account;
+  };
+
+  // There's no clock shared with an authenticator app, so any six digits pass
+  const checkTotpCode = (code: string) => {
+    if (!/^\d{6}$/.test(code)) {
+      throw authError('auth/invalid-verification-code', 'Invalid verification code');
+    }
+  };
+
+  // Either a code from the app or one of the account's backup codes, which
+  // is used up
+  const checkSecondFactor = (account: MemoryAccount, code: string) => {
+    if (!isBackupCode(code)) {
+      checkTotpCode(code);
+      return;
+    }
+    const normalized = normalizeBackupCode(code);
+    if (backupCodes.get(normalized)?.uid !== account.uid) {
+      throw new InvalidBackupCodeError();
+    }
+    backupCodes.delete(normalized);
+  };
+
+  const deleteBackupCodes = (uid: string, factorUid?: string) => {
+    backupCodes.forEach((backupCode, code) => {
+      if (backupCode.uid === uid && (!factorUid || backupCode.factorUid === factorUid)) {
+        backupCodes.delete(code);
+      }
+    });
+  };
+
+  // Sign-ins of accounts with a second factor wait for a code
+  const withSecondFactor = <T>(account: MemoryAccount, signIn: () => T) => {
+    if (account.secondFactors.length === 0) {
+      return signIn();
+    }
+    throw new SecondFactorRequiredError({
+      resolve: async (code) => {
+        checkSecondFactor(account, code);
+        signIn();
+        return currentUser!;
+      }
+    });
+  };
+
+  // Reauthenticating an account with a second factor waits for a code too,
+  // then goes on with the change
+  const withRecentSignIn = async (
+    password: string | undefined,
+    change: (account: MemoryAccount) => Promise<void> | void
+  ) => {
+    const account = checkPassword(password);
+    if (account.secondFactors.length === 0) {
+      await change(account);
+      return;
+    }
+    throw new SecondFactorRequiredError({
+      resolve: async (code) => {
+        checkSecondFactor(account, code);
+        await change(account);
+        return currentUser!;
+      }
+    });
+  };
+
+  const updateProfileData = (uid: string, changes: Partial<UserData>) => {
+    const profile = profiles.get(uid);
+    if (profile) {
+      profiles.set(uid, { ...profile, ...changes });
+    }
+  };
+
+  const getGroup = (groupId: string) => {
+    const group = groups.get(groupId);
+    if (!group) {
+      throw new GroupPermissionError('Group not found');
+    }
+    return group;
+  };
+
+  const updateGroup = (groupId: string, update: (group: Group) => Group) => {
+    const group = getGroup(groupId);
+    if (group.type === 'dm') {
+      throw new GroupPermissionError('Direct messages have no member roles');
+    }
+    groups.set(groupId, update(group));
+    notify();
+  };
+
+  const updateMessage = (messageId: string, update: (message: Message) => Message) => {
+    const message = messages.get(messageId);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+    messages.set(messageId, update(message));
+    notify();
+  };
+
+  // Emits the newest `count` matching messages whenever they change
+  const subscribeToWindow = (
+    matches: (message: Message) => boolean,
+    count: number,
+    onUpdate: (update: MessagesUpdate) => void
+  ) => {
+    let previous: Message[] = [];
+    return watch(() => {
+      const inWindow = [...messages.values()].filter(matches).sort(newestFirst).slice(0, count);
+      if (sameItems(inWindow, previous)) return;
+
+      const hasNewMessages = inWindow.some(message =>
+        !previous.some(old => old.id === message.id));
+      previous = inWindow;
+      // Deletes are soft, messages never disappear from a window
+      onUpdate({ messages: inWindow, removedIds: [], hasNewMessages });
+    });
+  };
+
+  const loadOlderMatching = (
+    matches: (message: Message) => boolean,
+    before: Message,
+    count: number
+  ) => {
+    const older = [...messages.values()]
+      .filter(message => matches(message) && newestFirst(before, message) > 0)
+      .sort(newestFirst);
+    return { messages: older.slice(0, count), hasMore: older.length > count };
+  };
+
+  // Adds an inbox entry for every mentioned user except the sender
+  const addMentionRecords = (
+    mentionedUids: string[],
+    mention: Pick<Mention, 'messageId' | 'groupId' | 'parentId' | 'senderId' | 'senderName'>
+  ) => {
+    mentionedUids
+      .filter(uid => uid !== mention.senderId)
+      .forEach(uid => {
+        const inbox = (mentionInboxes.get(uid) ?? [])
+          .filter(existing => existing.id !== mention.messageId);
+        mentionInboxes.set(uid, [
+          { ...mention, id: mention.messageId, createdAt: now(), readAt: null },
+          ...inbox
+        ]);
+      });
+  };
+
+  const removeMentionRecords = (mentionedUids: string[], messageId: string) => {
+    mentionedUids.forEach(uid => {
+      mentionInboxes.set(uid, (mentionInboxes.get(uid) ?? [])
+        .filter(existing => existing.id !== messageId));
+    });
+  };
+
+  const groupEntries = <T>(map: Map<string, Map<string, T>>, groupId: string) => {
+    let entries = map.get(groupId);
+    if (!entries) {
+      entries = new Map();
+      map.set(groupId, entries);
+    }
+    return entries;
+  };
+
+  return {
+    auth: {
+      currentUser: () => currentUser,
+
+      onAuthStateChanged: (callback) => {
+        authListeners.add(callback);
+        callback(currentUser);
+        return () => {
+          authListeners.delete(callback);
+        };
+      },
+
+      reloadUser: async () => currentUser,
+
+      isUsernameTaken: async (username) => usernames.has(username.toLowerCase()),
+
+      signUp: async ({ email, password, username }) => {
+        if ([...accounts.values()].some(account => account.email === email)) {
+          throw authError('auth/email-already-in-use', 'Email already in use');
+        }
+        if (password.length < 6) {
+          throw authError('auth/weak-password', 'Password is too weak');
+        }
+        if (usernames.has(username.toLowerCase())) {
+          throw new UsernameTakenError();
+        }
+
+        const account: MemoryAccount = {
+          uid: crypto.randomUUID(),
+          email,
+          password,
+          passphrase: password,
+          username,
+          emailVerified: false,
+          providers: [],
+          secondFactors: []
+        };
+        accounts.set(account.uid, account);
+        profiles.set(account.uid, { username, email, emailVerified: false });
+        usernames.set(username.toLowerCase(), account.uid);
+        unlockedKeys.add(account.uid);
+        setCurrentUser(account);
+        return currentUser!;
+      },
+
+      signIn: async (email, password) => {
+        const account = [...accounts.values()].find(account =>
+          account.email === email && account.password === password);
+        if (!account) {
+          throw authError('auth/wrong-password', 'Invalid email or password');
+        }
+
+        return withSecondFactor(account, () => {
+          unlockedKeys.add(account.uid);
+          setCurrentUser(account);
+          return currentUser!;
+        });
+      },
+
+      // Every provider sign-in is the same made-up user of that provider
+      signInWithProvider: async (providerId) => {
+        let account = [...accounts.values()].find(account =>
+          account.providers.includes(providerId));
+        if (!account) {
+          account = {
+            uid: crypto.randomUUID(),
+            email: `user@${providerId}`,
+            password: null,
+            passphrase: '',
+            username: '',
+            emailVerified: providerId === 'google.com',
+            providers: [providerId],
+            secondFactors: []
+          };
+          accounts.set(account.uid, account);
+        }
+
+        const signedIn = account;
+        return withSecondFactor(signedIn, () => {
+          setCurrentUser(signedIn);
+          return { user: currentUser!, needsProfile: !profiles.has(signedIn.uid) };
+        });
+      },
+
+      sendSignInLink: async (email, continueUrl) => {
+        signInLinks.set(`${continueUrl}?mode=signIn&oobCode=${crypto.randomUUID()}`, email);
+      },
+
+      isSignInLink: (url) => signInLinks.has(url),
+
+      signInWithLink: async (email, url) => {
+        const linkEmail = signInLinks.get(url);
+        if (!linkEmail) {
+          throw authError('auth/invalid-action-code', 'The link is invalid or was already used');
+        }
+        if (linkEmail !== email) {
+          throw authError('auth/invalid-email', 'The email does not match the link');
+        }
+        signInLinks.delete(url);
+
+        let account = [...accounts.values()].find(account => account.email === email);
+        if (!account) {
+          account = {
+            uid: crypto.randomUUID(),
+            email,
+            password: null,
+            passphrase: '',
+            username: '',
+            emailVerified: false,
+            providers: [],
+            secondFactors: []
+          };
+          accounts.set(account.uid, account);
+        }
+
+        const signedIn = account;
+        return withSecondFactor(signedIn, () => {
+          signedIn.emailVerified = true;
+          updateProfileData(signedIn.uid, { emailVerified: true });
+          setCurrentUser(signedIn);
+          return { user: currentUser!, needsProfile: !profiles.has(signedIn.uid) };
+        });
+      },
+
+      completeProfile: async ({ username, passphrase }) => {
+        const account = currentUser && accounts.get(currentUser.uid);
+        if (!account) {
+          throw new Error('Not signed in');
+        }
+        if (usernames.has(username.toLowerCase())) {
+          throw new UsernameTakenError();
+        }
+
+        account.username = username;
+        account.passphrase = passphrase;
+        profiles.set(account.uid, {
+          username,
+          email: account.email,
+          emailVerified: hasVerifiedEmail(currentUser!)
+        });
+        usernames.set(username.toLowerCase(), account.uid);
+        unlockedKeys.add(account.uid);
+        setCurrentUser(account);
+      },
+
+      signOut: async () => {
+        if (currentUser) {
+          unlockedKeys.delete(currentUser.uid);
+        }
+        setCurrentUser(null);
+      },
+
+      sendPasswordReset: async (email) => {
+        const account = [...accounts.values()].find(account => account.email === email);
+        if (!account) {
+          throw authError('auth/user-not-found', 'No account with that email');
+        }
+        sendActionCode({ mode: 'resetPassword', uid: account.uid, email });
+      },
+
+      sendVerificationEmail: async () => {
+        if (currentUser?.email && !currentUser.emailVerified) {
+          sendActionCode({ mode: 'verifyEmail', uid: currentUser.uid, email: currentUser.email });
+        }
+      },
+
+      verifyPasswordResetCode: async (code) => {
+        const actionCode = actionCodes.get(code);
+        if (actionCode?.mode !== 'resetPassword') {
+          throw authError('auth/invalid-action-code', 'The code is invalid or was already used');
+        }
+        return actionCode.email;
+      },
+
+      confirmPasswordReset: async (code, newPassword) => {
+        if (newPassword.length < 6) {
+          throw authError('auth/weak-password', 'Password is too weak');
+        }
+        // The encryption keys stay locked with the old password
+        getAccount(redeemActionCode(code, 'resetPassword').uid).password = newPassword;
+      },
+
+      applyEmailActionCode: async (code) => {
+        const storedMode = actionCodes.get(code)?.mode;
+        const mode = storedMode === 'recoverEmail' || storedMode === 'verifyAndChangeEmail'
+          ? storedMode
+          : 'verifyEmail';
+        const { uid, email } = redeemActionCode(code, mode);
+        const account = getAccount(uid);
+
+        if (mode === 'verifyAndChangeEmail') {
+          if ([...accounts.values()].some(other => other.uid !== uid && other.email === email)) {
+            throw authError('auth/email-already-in-use', 'Email already in use');
+          }
+          // Firebase emails the old address a link to undo the change
+          sendActionCode({ mode: 'recoverEmail', uid, email: account.email });
+        }
+
+        account.email = email;
+        account.emailVerified = true;
+        updateProfileData(uid, { email, emailVerified: true });
+        if (currentUser?.uid === uid) {
+          setCurrentUser(account);
+        }
+        return email;
+      },
+
+      markEmailVerified: async (uid) => {
+        const profile = profiles.get(uid);
+        if (profile) {
+          profiles.set(uid, { ...profile, emailVerified: true });
+        }
+      },
+
+      getProfile: async (uid) => profiles.get(uid) ?? null,
+
+      findUidByUsername: async (username) => usernames.get(username.toLowerCase()) ?? null,
+
+      hasUnlockedKeys: async (uid) => unlockedKeys.has(uid),
+
+      unlockKeys: async (uid, passphrase) => {
+        if (accounts.get(uid)?.passphrase !== passphrase) {
+          throw new Error('Incorrect password');
+        }
+        unlockedKeys.add(uid);
+      }
+    },
+
+    account: {
+      rename: async (uid, username) => {
+        const account = getAccount(uid);
+        const claimedBy = usernames.get(username.toLowerCase());
+        if (claimedBy && claimedBy !== uid) {
+          throw new UsernameTakenError();
+        }
+
+        usernames.delete(account.username.toLowerCase());
+        usernames.set(username.toLowerCase(), uid);
+        account.username = username;
+        updateProfileData(uid, { username });
+
+        groups.forEach((group, groupId) => {
+          if (group.type === 'dm' && group.members.includes(uid)) {
+            groups.set(groupId, { ...group, memberNames: { ...group.memberNames, [uid]: username } });
+          }
+        });
+        if (currentUser?.uid === uid) {
+          setCurrentUser(account);
+        }
+        notify();
+      },
+
+      updateProfile: async (uid, { bio }) => {
+        updateProfileData(uid, { bio: bio?.trim() || undefined });
+      },
+
+      uploadAvatar: async (uid, file) => {
+        validateAvatar(file);
+        const previous = profiles.get(uid)?.avatarUrl;
+        if (previous) {
+          URL.revokeObjectURL(previous);
+        }
+        const avatarUrl = URL.createObjectURL(file);
+        updateProfileData(uid, { avatarUrl });
+        return avatarUrl;
+      },
+
+      changeEmail: (currentPassword, newEmail) =>
+        withRecentSignIn(currentPassword, (account) => {
+          if ([...accounts.values()].some(other => other.email === newEmail)) {
+            throw authError('auth/email-already-in-use', 'Email already in use');
+          }
+
+          sendActionCode({ mode: 'verifyAndChangeEmail', uid: account.uid, email: newEmail });
+        }),
+
+      changePassword: (currentPassword, newPassword, keyPassphrase = currentPassword) =>
+        withRecentSignIn(currentPassword, (account) => {
+          if (newPassword.length < 6) {
+            throw authError('auth/weak-password', 'Password is too weak');
+          }
+          if (account.passphrase !== keyPassphrase) {
+            throw new KeyPassphraseError();
+          }
+          account.password = newPassword;
+          account.passphrase = newPassword;
+        }),
+
+      linkProvider: async (providerId) => {
+        const account = currentUser && accounts.get(currentUser.uid);
+        if (!account) {
+          throw new Error('Not signed in');
+        }
+        if ([...accounts.values()].some(other => other.providers.includes(providerId))) {
+          throw authError('auth/credential-already-in-use', 'Already linked to an account');
+        }
+
+        account.providers.push(providerId);
+        setCurrentUser(account);
+        return currentUser!;
+      },
+
+      secondFactors: () =>
+        (currentUser && accounts.get(currentUser.uid)?.secondFactors) ?? [],
+
+      startTotpEnrollment: async (currentPassword) => {
+        const account = checkPassword(currentPassword);
+        const secretKey = Array.from(
+          crypto.getRandomValues(new Uint8Array(32)),
+          byte => BASE32_ALPHABET[byte % BASE32_ALPHABET.length]
+        ).join('');
+        return {
+          secretKey,
+          otpauthUrl: `otpauth://totp/ReactAppDev:${encodeURIComponent(account.email)}?secret=${secretKey}&issuer=ReactAppDev`,
+          finish: async (code, displayName) => {
+            checkTotpCode(code);
+            const factorUid = crypto.randomUUID();
+            account.secondFactors.push({ uid: factorUid, displayName, enrolledAt: now() });
+
+            deleteBackupCodes(account.uid);
+            const codes = generateBackupCodes();
+            codes.forEach(backupCode =>
+              backupCodes.set(normalizeBackupCode(backupCode), { uid: account.uid, factorUid }));
+            return codes;
+          }
+        };
+      },
+
+      unenrollSecondFactor: (factorUid, currentPassword) =>
+        withRecentSignIn(currentPassword, (account) => {
+          account.secondFactors = account.secondFactors.filter(factor => factor.uid !== factorUid);
+          deleteBackupCodes(account.uid, factorUid);
+        })
+    },
+
+    groups: {
+      subscribe: (uid, onUpdate) => {
+        let previous: Group[] = [];
+        return watch(() => {
+          const list = [...groups.values()].filter(group => group.members.includes(uid));
+          if (sameItems(list, previous)) return;
+
+          const removedIds = previous
+            .filter(old => !list.some(group => group.id === old.id))
+            .map(group => group.id);
+          previous = list;
+          onUpdate({ groups: list, removedIds });
+        });
+      },
+
+      checkAccess: async (groupId, uid) => {
+        const group = groups.get(groupId);
+        if (!group) return 'not-found';
+        return group.members.includes(uid) ? 'member' : 'not-member';
+      },
+
+      create: async (uid, name, description) => {
+        const group: Group = {
+          id: crypto.randomUUID(),
+          type: 'group',
+          name,
+          description,
+          createdBy: uid,
+          createdAt: now(),
+          members: [uid],
+          roles: { [uid]: 'owner' },
+          keyVersion: 1
+        };
+        groups.set(group.id, group);
+        notify();
+        return group;
+      },
+
+      openDirectMessage: async (uid, ownUsername, otherUsername) => {
+        const username = otherUsername.trim().replace(/^@/, '');
+        const otherUid = usernames.get(username.toLowerCase());
+        if (!otherUid) {
+          throw new Error('No user with that username');
+        }
+        if (otherUid === uid) {
+          throw new Error("You can't send a direct message to yourself");
+        }
+
+        const dmId = getDirectMessageId(uid, otherUid);
+        const existing = groups.get(dmId);
+        if (existing) return existing;
+
+        const dm: Group = {
+          id: dmId,
+          type: 'dm',
+          name: '',
+          description: '',
+          createdBy: uid,
+          createdAt: now(),
+          members: [uid, otherUid],
+          memberNames: {
+            [uid]: ownUsername,
+            [otherUid]: profiles.get(otherUid)?.username ?? username
+          },
+          keyVersion: 1
+        };
+        groups.set(dm.id, dm);
+        notify();
+        return dm;
+      },
+
+      promoteMember: async (groupId, actorUid, targetUid) =>
+        updateGroup(groupId, (group) => {
+          assertOwner(group, actorUid);
+          assertMember(group, targetUid);
+          if (getRole(group, targetUid) !== 'member') {
+            throw new GroupPermissionError('Only members can be promoted');
+          }
+          return { ...group, roles: { ...group.roles, [targetUid]: 'admin' } };
+        }),
+
+      demoteMember: async (groupId, actorUid, targetUid) =>
+        updateGroup(groupId, (group) => {
+          assertOwner(group, actorUid);
+          assertMember(group, targetUid);
+          if (getRole(group, targetUid) !== 'admin') {
+            throw new GroupPermissionError('Only admins can be demoted');
+          }
+          return { ...group, roles: { ...group.roles, [targetUid]: 'member' } };
+        }),
+
+      removeMember: async (groupId, actorUid, targetUid) =>
+        updateGroup(groupId, (group) => {
+          assertMember(group, actorUid);
+          if (!isAdmin(group, actorUid)) {
+            throw new GroupPermissionError('Only a group admin can do that');
+          }
+          assertMember(group, targetUid);
+          if (!canRemoveMember(group, actorUid, targetUid)) {
+            throw new GroupPermissionError('You can only remove members with a lower role');
+          }
+          return withNewKey(withoutMember(group, targetUid));
+        }),
+
+      // The owner's role passes to an admin, or to the longest-standing member
+      leave: async (groupId, uid) =>
+        updateGroup(groupId, (group) => {
+          assertMember(group, uid);
+          const remaining = withoutMember(group, uid);
+          if (remaining.members.length === 0) return remaining;
+
+          if (getRole(group, uid) === 'owner') {
+            const newOwner = remaining.members.find(member =>
+              getRole(group, member) === 'admin'
+            ) ?? remaining.members[0];
+            remaining.roles = { ...remaining.roles, [newOwner]: 'owner' };
+          }
+          // The next member to send rotates the key
+          staleKeys.add(groupId);
+          return remaining;
+        }),
+
+      currentKeyVersion: async (group) => {
+        if (!staleKeys.delete(group.id)) return group.keyVersion ?? 1;
+
+        const rotated = withNewKey(getGroup(group.id));
+        groups.set(group.id, rotated);
+        notify();
+        return rotated.keyVersion!;
+      }
+    },
+
+    messages: {
+      newId: () => crypto.randomUUID(),
+
+      get: async (messageId) => messages.get(messageId) ?? null,
+
+      subscribeToLatest: (groupId, count, onUpdate) =>
+        subscribeToWindow(message => message.groupId === groupId, count, onUpdate),
+
+      subscribeToReplies: (groupId, parentId, count, onUpdate) =>
+        subscribeToWindow(
+          message => message.groupId === groupId && message.parentId === parentId,
+          count,
+          onUpdate
+        ),
+
+      loadOlder: async (groupId, before, count) =>
+        loadOlderMatching(message => message.groupId === groupId, before, count),
+
+      loadOlderReplies: async (groupId, parentId, before, count) =>
+        loadOlderMatching(
+          message => message.groupId === groupId && message.parentId === parentId,
+          before,
+          count
+        ),
+
+      loadAround: async (groupId, messageId, count) => {
+        const target = messages.get(messageId);
+        if (!target || target.groupId !== groupId) return null;
+
+        const list = [...messages.values()]
+          .filter(message => message.groupId === groupId)
+          .sort(newestFirst);
+        const index = list.indexOf(target);
+        const start = Math.max(index - count, 0);
+        const end = index + 1 + count;
+        return { messages: list.slice(start, end), hasMore: list.length > end, hasNewer: start > 0 };
+      },
+
+      loadNewer: async (groupId, after, count) => {
+        const newer = [...messages.values()]
+          .filter(message => message.groupId === groupId
+            && (!after || newestFirst(after, message) > 0))
+          .sort(newestFirst)
+          .reverse();
+        return { messages: newer.slice(0, count), hasMore: newer.length > count };
+      },
+
+      latest: async (groupId) =>
+        [...messages.values()]
+          .filter(message => message.groupId === groupId)
+          .sort(newestFirst)[0] ?? null,
+
+      loadChangedSince: async (groupId, since) =>
+        [...messages.values()].filter(message =>
+          message.groupId === groupId
+          && [message.editedAt, message.deletedAt].some(changedAt =>
+            !!changedAt && changedAt.getTime() > since.getTime())),
+
+      sealBody: async (_group, _uid, text) => ({ content: text }),
+
+      openBody: async (message) => message.content ?? '',
+
+      // Sends are applied at once, so a draft that exists has already arrived
+      send: async (draft) => {
+        if (messages.has(draft.id)) return;
+
+        const timestamp = now();
+        messages.set(draft.id, {
+          id: draft.id,
+          content: draft.content,
+          encrypted: draft.encrypted,
+          attachments: draft.attachments?.length ? draft.attachments : undefined,
+          mentions: draft.mentions?.length ? draft.mentions : undefined,
+          senderId: draft.senderId,
+          senderName: draft.senderName,
+          groupId: draft.groupId,
+          parentId: draft.parentId,
+          timestamp,
+          createdAt: draft.createdAt
+        });
+
+        const parent = draft.parentId ? messages.get(draft.parentId) : undefined;
+        if (parent) {
+          messages.set(parent.id, {
+            ...parent,
+            replyCount: (parent.replyCount ?? 0) + 1,
+            lastReplyAt: timestamp
+          });
+        }
+        const group = groups.get(draft.groupId);
+        if (group) {
+          groups.set(group.id, { ...group, lastMessageAt: timestamp });
+        }
+        addMentionRecords(draft.mentions ?? [], {
+          messageId: draft.id,
+          groupId: draft.groupId,
+          parentId: draft.parentId ?? null,
+          senderId: draft.senderId,
+          senderName: draft.senderName
+        });
+        notify();
+      },
+
+      edit: async (message, body, mentions, editor) => {
+        updateMessage(message.id, (stored) => {
+          const editedAt = now();
+          return {
+            ...stored,
+            content: body.content,
+            encrypted: body.encrypted,
+            mentions: mentions.length > 0 ? mentions : undefined,
+            editedAt,
+            edits: [
+              ...(stored.edits ?? []),
+              {
+                ...(stored.encrypted
+                  ? { encrypted: stored.encrypted }
+                  : { content: stored.content ?? '' }),
+                editedAt
+              }
+            ]
+          };
+        });
+        // Only users newly mentioned by the edit get an inbox entry
+        addMentionRecords(
+          mentions.filter(mentionedUid => !message.mentions?.includes(mentionedUid)),
+          {
+            messageId: message.id,
+            groupId: message.groupId,
+            parentId: message.parentId ?? null,
+            senderId: editor.uid,
+            senderName: editor.username
+          }
+        );
+        removeMentionRecords(
+          (message.mentions ?? []).filter(mentionedUid => !mentions.includes(mentionedUid)),
+          message.id
+        );
+        notify();
+      },
+
+      remove: async (message) => {
+        removeMentionRecords(message.mentions ?? [], message.id);
+        updateMessage(message.id, (stored) => ({
+          ...stored,
+          content: undefined,
+          encrypted: undefined,
+          edits: undefined,
+          attachments: undefined,
+          deletedAt: now()
+        }));
+      },
+
+      toggleReaction: async (message, emoji, uid) =>
+        updateMessage(message.id, (stored) => {
+          const uids = stored.reactions?.[emoji] ?? [];
+          return {
+            ...stored,
+            reactions: {
+              ...stored.reactions,
+              [emoji]: uids.includes(uid)
+                ? uids.filter(reactedUid => reactedUid !== uid)
+                : [...uids, uid]
+            }
+          };
+        })
+    },
+
+    invites: {
+      subscribe: (groupId, onUpdate) => {
+        let previous: Invite[] = [];
+        return watch(() => {
+          const list = [...invites.values()].filter(invite => invite.groupId === groupId);
+          if (sameItems(list, previous)) return;
+          previous = list;
+          onUpdate(list);
+        });
+      },
+
+      create: async (groupId, actorUid, { expiresInMs, maxUses }) => {
+        const group = groups.get(groupId);
+        if (!group) {
+          throw new InviteError('Group not found');
+        }
+        if (!isAdmin(group, actorUid)) {
+          throw new GroupPermissionError('Only group admins can create invites');
+        }
+
+        const code = generateCode();
+        if (invites.has(code)) {
+          throw new InviteError('Invite code collision, please try again');
+        }
+        invites.set(code, {
+          code,
+          groupId,
+          createdBy: actorUid,
+          expiresAt: expiresInMs === null ? null : new Date(Date.now() + expiresInMs),
+          maxUses,
+          uses: 0
+        });
+        notify();
+        return code;
+      },
+
+      revoke: async (code, actorUid) => {
+        const invite = invites.get(code);
+        if (!invite) {
+          throw new InviteError('Invite not found');
+        }
+        const group = groups.get(invite.groupId);
+        if (!group || !isAdmin(group, actorUid)) {
+          throw new GroupPermissionError('Only group admins can revoke invites');
+        }
+
+        invites.set(code, { ...invite, revokedAt: now() });
+        notify();
+      },
+
+      join: async (code, uid) => {
+        const invite = invites.get(code.trim().toUpperCase());
+        if (!invite) {
+          throw new InviteError('Invalid invite code');
+        }
+        if (!isInviteActive(invite)) {
+          throw new InviteError(invite.revokedAt
+            ? 'This invite has been revoked'
+            : invite.expiresAt && invite.expiresAt.getTime() <= Date.now()
+              ? 'This invite has expired'
+              : 'This invite has reached its usage limit');
+        }
+
+        const group = groups.get(invite.groupId);
+        if (!group) {
+          throw new InviteError('This group no longer exists');
+        }
+        if (group.members.includes(uid)) {
+          throw new InviteError('You are already a member of this group');
+        }
+
+        groups.set(group.id, withNewKey({
+          ...group,
+          members: [...group.members, uid],
+          roles: { ...group.roles, [uid]: 'member' }
+        }));
+        invites.set(invite.code, { ...invite, uses: invite.uses + 1 });
+        notify();
+        return group.id;
+      }
+    },
+
+    attachments: {
+      upload: async (file, groupId, keyVersion, uid, onProgress) => {
+        validateAttachment(file);
+
+        const path = `attachments/${groupId}/${uid}/${crypto.randomUUID()}`;
+        files.set(path, file);
+        onProgress(1);
+        return {
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          path,
+          iv: '',
+          keyVersion
+        };
+      },
+
+      download: async (attachment) => {
+        const file = files.get(attachment.path);
+        if (!file) {
+          throw new Error('Attachment not found');
+        }
+        return file;
+      },
+
+      remove: async (attachment) => {
+        files.delete(attachment.path);
+      }
+    },
+
+    readState: {
+      subscribe: (groupId, uid, onUpdate) => {
+        let previous: number | undefined;
+        return watch(() => {
+          const lastReadAt = readStates.get(groupId)?.get(uid)?.lastReadAt ?? 0;
+          if (lastReadAt === previous) return;
+          previous = lastReadAt;
+          onUpdate(lastReadAt);
+        });
+      },
+
+      subscribeToReceipts: (groupId, onUpdate) => {
+        let previous: ReadReceipt[] | undefined;
+        return watch(() => {
+          const receipts = [...(readStates.get(groupId)?.values() ?? [])];
+          if (previous && sameItems(receipts, previous)) return;
+          previous = receipts;
+          onUpdate(receipts);
+        });
+      },
+
+      countUnread: async (groupId, since) =>
+        [...messages.values()].filter(message =>
+          message.groupId === groupId && (message.timestamp?.getTime() ?? 0) > since
+        ).length,
+
+      markRead: async (groupId, uid, username) => {
+        groupEntries(readStates, groupId).set(uid, {
+          uid,
+          username,
+          lastReadAt: now().getTime()
+        });
+        notify();
+      }
+    },
+
+    typing: {
+      subscribe: (groupId, onUpdate) => {
+        let previous: TypingEntry[] | undefined;
+        return watch(() => {
+          const entries = [...(typing.get(groupId)?.values() ?? [])];
+          if (previous && sameItems(entries, previous)) return;
+          previous = entries;
+          onUpdate(entries);
+        });
+      },
+
+      setTyping: async (groupId, uid, username) => {
+        groupEntries(typing, groupId).set(uid, { uid, username, updatedAt: Date.now() });
+        notify();
+      },
+
+      clearTyping: async (groupId, uid) => {
+        typing.get(groupId)?.delete(uid);
+        notify();
+      }
+    },
+
+    mentions: {
+      subscribe: (uid, count, onUpdate) => {
+        let previous: Mention[] | undefined;
+        return watch(() => {
+          const inbox = (mentionInboxes.get(uid) ?? []).slice(0, count);
+          if (previous && sameItems(inbox, previous)) return;
+          previous = inbox;
+          onUpdate(inbox);
+        });
+      },
+
+      markRead: async (uid, mentionIds) => {
+        const readAt = now();
+        mentionInboxes.set(uid, (mentionInboxes.get(uid) ?? []).map(mention =>
+          mentionIds.includes(mention.id) && !mention.readAt ? { ...mention, readAt } : mention
+        ));
+        notify();
+      }
+    },
+
+    notifications: {
+      subscribeToSettings: (uid, onUpdate) => {
+        let previous: NotificationSettings | undefined;
+        return watch(() => {
+          const settings = notificationSettings.get(uid) ?? {};
+          if (settings === previous) return;
+          previous = settings;
+          onUpdate(settings);
+        });
+      },
+
+      setGroupLevel: async (uid, groupId, level) => {
+        const settings = notificationSettings.get(uid) ?? {};
+        const groupLevels = { ...settings.groups };
+        // 'all' is the default, so it doesn't need an entry
+        if (level === 'all') {
+          delete groupLevels[groupId];
+        } else {
+          groupLevels[groupId] = level;
+        }
+        notificationSettings.set(uid, { ...settings, groups: groupLevels });
+        notify();
+      },
+
+      setDoNotDisturb: async (uid, doNotDisturb) => {
+        notificationSettings.set(uid, { ...(notificationSettings.get(uid) ?? {}), doNotDisturb });
+        notify();
+      }
+    },
+
+    verifyEmail: (uid) => {
+      const account = accounts.get(uid);
+      if (!account) return;
+
+      account.emailVerified = true;
+      if (currentUser?.uid === uid) {
+        setCurrentUser(account);
+      }
+    },
+
+    actionCodeFor: (email) =>
+      [...actionCodes.entries()].reverse().find(([, actionCode]) => actionCode.email === email)?.[0] ?? null,
+
+    signInLinkFor: (email) =>
+      [...signInLinks.entries()].reverse().find(([, linkEmail]) => linkEmail === email)?.[0] ?? null
+  };
+};
@@ -0,0 +1,30 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { AuthUser, ChatBackend } from '../backend/chatBackend';
+
+// Pages get their backend from here. There's no default, so nothing loads
+// Firebase unless the Firestore backend is provided, see main.tsx.
+export const ChatBackendContext = createContext<ChatBackend | null>(null);
+
+export const useChatBackend = () => {
+  const backend = useContext(ChatBackendContext);
+  if (!backend) {
+    throw new Error('useChatBackend must be used inside a ChatBackendContext provider');
+  }
+  return backend;
+};
+
+// The signed-in user, with `loading` set until the first auth state arrives
+export const useAuthUser = () => {
+  const { auth } = useChatBackend();
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() =>
+    auth.onAuthStateChanged((currentUser) => {
+      setUser(currentUser);
+      setLoading(false);
+    }),
+  [auth]);
+
+  return { user, loading };
+};
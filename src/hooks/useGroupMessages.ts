@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MessageJump, MessagePage, MessagesUpdate } from '../backend/chatBackend';
+import { Message } from '../types/chat';
+import { useChatBackend } from './useChatBackend';
+
+// Pending writes have no server timestamp yet, so they sort last
+const messageTime = (message: Message) =>
+  message.timestamp?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+// Add loaded messages to the list, replacing older copies, oldest first
+export const mergeMessages = (prev: Message[], loaded: Message[]) => {
+  const byId = new Map(prev.map(message => [message.id, message]));
+  loaded.forEach(message => byId.set(message.id, message));
+  return [...byId.values()].sort((a, b) => messageTime(a) - messageTime(b));
+};
+
+// Merge an update of the newest messages into the loaded list. Older pages
+// stay in the list; only messages deleted from inside the window go.
+export const applyMessageChanges = (prev: Message[], { messages, removedIds }: MessagesUpdate) =>
+  mergeMessages(prev.filter(message => !removedIds.includes(message.id)), messages);
+
+interface MessageSegment {
+  // Oldest first, with no gaps between the oldest and the newest
+  messages: Message[];
+  // Whether there are older messages than the segment's
+  hasMore: boolean;
+}
+
+// The newest messages, plus the messages around a linked message when they
+// don't reach the newest ones. That segment is shown instead until paging
+// newer meets them.
+interface MessageStore extends MessageSegment {
+  detached: MessageSegment | null;
+}
+
+const EMPTY_STORE: MessageStore = { messages: [], hasMore: true, detached: null };
+
+// The store may be from an earlier visit to the group. If the first window
+// doesn't reach back to it, what was sent in between is missing, so start
+// over from the window.
+const resumeStore = (
+  store: MessageStore,
+  update: MessagesUpdate,
+  pageSize: number
+): MessageStore => {
+  const newestStored = store.messages[store.messages.length - 1];
+  const oldestInWindow = update.messages[update.messages.length - 1];
+  const hasGap = update.messages.length === pageSize
+    && !!newestStored
+    && messageTime(oldestInWindow) > messageTime(newestStored);
+
+  if (!newestStored || hasGap) {
+    return {
+      messages: mergeMessages([], update.messages),
+      hasMore: update.messages.length === pageSize,
+      detached: store.detached
+    };
+  }
+  return { ...store, messages: applyMessageChanges(store.messages, update) };
+};
+
+// Pages only decide `hasMore` when they reach further back than the segment
+// already does
+const addPage = <T extends MessageSegment>(segment: T, page: MessagePage): T => {
+  const oldestLoaded = page.messages[page.messages.length - 1];
+  const reachesBack = !oldestLoaded
+    || !segment.messages[0]
+    || messageTime(oldestLoaded) <= messageTime(segment.messages[0]);
+
+  return {
+    ...segment,
+    messages: mergeMessages(segment.messages, page.messages),
+    hasMore: reachesBack ? page.hasMore : segment.hasMore
+  };
+};
+
+// Whether a segment overlaps the stored newest messages, so the two can be
+// merged without a gap
+const meetsNewest = (store: MessageStore, messages: Message[]) => {
+  const newestLoaded = messages[messages.length - 1];
+  return !!newestLoaded
+    && !!store.messages[0]
+    && messageTime(newestLoaded) >= messageTime(store.messages[0]);
+};
+
+// A page around a linked message joins the newest messages if it reaches or
+// overlaps them, and is kept apart otherwise. A page that reaches the newest
+// message but not back to the stored ones replaces them, like a window does
+// in resumeStore.
+const addJumpPage = (store: MessageStore, page: MessageJump): MessageStore => {
+  const loaded = mergeMessages([], page.messages);
+  if (page.hasNewer && !meetsNewest(store, loaded)) {
+    return { ...store, detached: { messages: loaded, hasMore: page.hasMore } };
+  }
+
+  const newestStored = store.messages[store.messages.length - 1];
+  if (loaded[0] && newestStored && messageTime(loaded[0]) > messageTime(newestStored)) {
+    return { messages: loaded, hasMore: page.hasMore, detached: null };
+  }
+  return { ...addPage(store, page), detached: null };
+};
+
+// Extends the detached segment with a page from loadNewer, merging it into
+// the newest messages once it meets them
+const addNewerPage = (store: MessageStore, page: MessagePage): MessageStore => {
+  if (!store.detached) return store;
+
+  const detached = { ...store.detached, messages: mergeMessages(store.detached.messages, page.messages) };
+  if (page.hasMore && !meetsNewest(store, detached.messages)) {
+    return { ...store, detached };
+  }
+  return { ...addPage(store, { messages: detached.messages, hasMore: detached.hasMore }), detached: null };
+};
+
+// One message store per group: the live window of the newest messages merged
+// with older pages and jump results. Stores are kept when switching groups so
+// going back to one shows its messages straight away.
+export const useGroupMessages = (groupId: string | undefined, pageSize: number) => {
+  const { messages: messagesBackend } = useChatBackend();
+  const [stores, setStores] = useState<Record<string, MessageStore>>({});
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+
+  const updateStore = useCallback((
+    id: string,
+    update: (store: MessageStore) => MessageStore
+  ) => setStores(prev => ({ ...prev, [id]: update(prev[id] ?? EMPTY_STORE) })), []);
+
+  // Listen to the newest page for added, edited and deleted messages, and
+  // for our own messages being acknowledged by the server
+  useEffect(() => {
+    if (!groupId) return;
+
+    let isFirstUpdate = true;
+    return messagesBackend.subscribeToLatest(
+      groupId,
+      pageSize,
+      (update) => {
+        const isFirst = isFirstUpdate;
+        isFirstUpdate = false;
+        updateStore(groupId, store => isFirst
+          ? resumeStore(store, update, pageSize)
+          : { ...store, messages: applyMessageChanges(store.messages, update) });
+      },
+      (error) => {
+        console.error('Error listening to messages:', error);
+      }
+    );
+  }, [groupId, pageSize, messagesBackend, updateStore]);
+
+  const store = (groupId && stores[groupId]) || EMPTY_STORE;
+  const shown = store.detached ?? store;
+
+  // Load the page of messages before the oldest one shown
+  const loadOlder = useCallback(async () => {
+    const oldestMessage = shown.messages[0];
+    if (!groupId || !oldestMessage || !shown.hasMore || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await messagesBackend.loadOlder(groupId, oldestMessage, pageSize);
+      updateStore(groupId, store => store.detached
+        ? { ...store, detached: addPage(store.detached, page) }
+        : addPage(store, page));
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [groupId, shown, loadingOlder, pageSize, messagesBackend, updateStore]);
+
+  // Load the page of messages after the newest one shown, while that isn't
+  // the group's newest
+  const loadNewer = useCallback(async () => {
+    const newestMessage = store.detached?.messages[store.detached.messages.length - 1];
+    if (!groupId || !newestMessage || loadingNewer) return;
+
+    setLoadingNewer(true);
+    try {
+      const page = await messagesBackend.loadNewer(groupId, newestMessage, pageSize);
+      updateStore(groupId, store => addNewerPage(store, page));
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    } finally {
+      setLoadingNewer(false);
+    }
+  }, [groupId, store, loadingNewer, pageSize, messagesBackend, updateStore]);
+
+  // Loads a page around a message into the group's store. Resolves to false
+  // if the message doesn't exist.
+  const loadAround = useCallback(async (targetGroupId: string, messageId: string) => {
+    const page = await messagesBackend.loadAround(targetGroupId, messageId, pageSize);
+    if (!page) return false;
+
+    updateStore(targetGroupId, store => addJumpPage(store, page));
+    return true;
+  }, [pageSize, messagesBackend, updateStore]);
+
+  // Go back to showing the group's newest messages
+  const showLatest = useCallback((targetGroupId: string) => {
+    setStores(prev => prev[targetGroupId]?.detached
+      ? { ...prev, [targetGroupId]: { ...prev[targetGroupId], detached: null } }
+      : prev);
+  }, []);
+
+  return {
+    messages: shown.messages,
+    hasMore: shown.hasMore,
+    // Whether the messages shown stop short of the group's newest
+    hasNewer: !!store.detached,
+    loadingOlder,
+    loadingNewer,
+    loadOlder,
+    loadNewer,
+    loadAround,
+    showLatest
+  };
+};
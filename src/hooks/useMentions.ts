@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Mention } from '../types/chat';
+import { useChatBackend } from './useChatBackend';
+
+const MENTIONS_LIMIT = 50;
+
+// Live view of the user's mention inbox
+export const useMentions = (uid: string | undefined) => {
+  const { mentions: mentionsBackend } = useChatBackend();
+  const [mentions, setMentions] = useState<Mention[]>([]);
+
+  useEffect(() => {
+    setMentions([]);
+    if (!uid) return;
+
+    const unsubscribe = mentionsBackend.subscribe(
+      uid,
+      MENTIONS_LIMIT,
+      setMentions,
+      (error) => {
+        console.error('Error listening to mentions:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [uid, mentionsBackend]);
+
+  const markMentionRead = useCallback(async (mentionId: string) => {
+    if (!uid) return;
+
+    try {
+      await mentionsBackend.markRead(uid, [mentionId]);
+    } catch (error) {
+      console.error('Error marking mention read:', error);
+    }
+  }, [uid, mentionsBackend]);
+
+  const markAllMentionsRead = useCallback(async () => {
+    if (!uid) return;
+
+    const unread = mentions.filter(mention => !mention.readAt);
+    if (unread.length === 0) return;
+
+    try {
+      await mentionsBackend.markRead(uid, unread.map(mention => mention.id));
+    } catch (error) {
+      console.error('Error marking mentions read:', error);
+    }
+  }, [uid, mentions, mentionsBackend]);
+
+  const unreadMentionCount = mentions.filter(mention => !mention.readAt).length;
+
+  return { mentions, unreadMentionCount, markMentionRead, markAllMentionsRead };
+};
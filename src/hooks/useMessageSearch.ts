@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  MessageSearchIndex,
+  MessageSearchSync,
+  SearchFilters,
+  SearchResult
+} from '../utils/messageSearch';
+import { useChatBackend } from './useChatBackend';
+
+interface SearchableGroup {
+  id: string;
+}
+
+// Builds the search index for every group the user belongs to. Each refresh
+// only fetches messages that are new or changed since the last one, so
+// reopening search is cheap.
+export const useMessageSearch = (
+  uid: string | undefined,
+  groups: SearchableGroup[],
+  queryText: string,
+  filters: SearchFilters
+) => {
+  const { messages } = useChatBackend();
+  const indexRef = useRef(new MessageSearchIndex());
+  const syncRef = useRef<MessageSearchSync | null>(null);
+  const [indexing, setIndexing] = useState(false);
+  const [indexedCount, setIndexedCount] = useState(0);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [senders, setSenders] = useState<{ uid: string; username: string }[]>([]);
+
+  const indexGroup = useCallback(async (groupId: string) => {
+    if (!uid) return;
+
+    syncRef.current ??= new MessageSearchSync(indexRef.current, messages, uid);
+    await syncRef.current.syncGroup(groupId);
+  }, [uid, messages]);
+
+  const refresh = useCallback(async () => {
+    setIndexing(true);
+    try {
+      await Promise.all(groups.map(async (group) => {
+        try {
+          await indexGroup(group.id);
+        } catch (error) {
+          console.error('Error indexing group messages:', error);
+        }
+      }));
+    } finally {
+      setIndexedCount(indexRef.current.size);
+      setIndexing(false);
+    }
+  }, [groups, indexGroup]);
+
+  // The index is mutated in place, so re-run the search once a refresh lands
+  useEffect(() => {
+    setResults(indexRef.current.search(queryText, filters));
+  }, [queryText, filters, indexedCount]);
+
+  useEffect(() => {
+    setSenders(indexRef.current.senders());
+  }, [indexedCount]);
+
+  return { results, senders, refresh, indexing, indexedCount };
+};
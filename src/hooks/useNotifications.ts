@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  getGroupLevel,
+  notificationsSupported,
+  registerNotificationWorker,
+  showMessageNotification
+} from '../utils/notifications';
+import { NotificationSettings } from '../types/user';
+import { useChatBackend } from './useChatBackend';
+
+interface NotifiableGroup {
+  id: string;
+  type: 'group' | 'dm';
+  name: string;
+  lastMessageAt?: Date;
+}
+
+// The user's notification settings, kept live from their profile
+export const useNotificationSettings = (uid: string | undefined) => {
+  const { notifications } = useChatBackend();
+  const [settings, setSettings] = useState<NotificationSettings>({});
+
+  useEffect(() => {
+    setSettings({});
+    if (!uid) return;
+
+    const unsubscribe = notifications.subscribeToSettings(
+      uid,
+      setSettings,
+      (error) => {
+        console.error('Error listening to notification settings:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [uid, notifications]);
+
+  return settings;
+};
+
+// Shows a desktop notification when a group the user isn't looking at gets
+// a new message, honouring per-group levels and do-not-disturb. Groups bump
+// lastMessageAt on every message, so watching the group list is enough to
+// know when to look.
+export const useMessageNotifications = (
+  uid: string | undefined,
+  groups: NotifiableGroup[],
+  activeGroupId: string | undefined,
+  settings: NotificationSettings,
+  onOpenGroup: (groupId: string) => void
+) => {
+  const { messages } = useChatBackend();
+  const lastSeenRef = useRef<Record<string, number>>({});
+  const onOpenGroupRef = useRef(onOpenGroup);
+
+  useEffect(() => {
+    onOpenGroupRef.current = onOpenGroup;
+  });
+
+  // Re-register on load so clicks on earlier notifications still work
+  useEffect(() => {
+    if (!notificationsSupported()) return;
+    if (Notification.permission === 'granted') {
+      registerNotificationWorker();
+    }
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'open-group' && event.data.groupId) {
+        onOpenGroupRef.current(event.data.groupId);
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleWorkerMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleWorkerMessage);
+  }, []);
+
+  useEffect(() => {
+    if (!uid) return;
+
+    groups.forEach(async (group) => {
+      const latest = group.lastMessageAt?.getTime() ?? 0;
+      const previous = lastSeenRef.current[group.id];
+      lastSeenRef.current[group.id] = Math.max(latest, previous ?? 0);
+
+      // The first time we see a group is the initial load, not a new message
+      if (previous === undefined || latest <= previous) return;
+      if (settings.doNotDisturb) return;
+
+      const level = getGroupLevel(settings, group.id);
+      if (level === 'muted') return;
+      if (group.id === activeGroupId && document.visibilityState === 'visible') return;
+
+      try {
+        const message = await messages.latest(group.id);
+        if (!message || message.senderId === uid || message.deletedAt) return;
+        if (level === 'mentions' && !message.mentions?.includes(uid)) return;
+
+        let body = message.attachments?.length ? 'Sent an attachment' : 'New message';
+        try {
+          body = (await messages.openBody(message, uid)) || body;
+        } catch {
+          // Keys may be locked, fall back to the generic text
+        }
+
+        await showMessageNotification({
+          title: group.type === 'dm'
+            ? `@${message.senderName}`
+            : `${message.senderName} in #${group.name}`,
+          body,
+          groupId: group.id
+        });
+      } catch (error) {
+        console.error('Error showing notification:', error);
+      }
+    });
+  }, [uid, groups, activeGroupId, settings, messages]);
+};
+
+// Prefixes the tab title with the unread count, e.g. "(3) NexusChat"
+export const useTitleBadge = (count: number) => {
+  const baseTitleRef = useRef(document.title);
+
+  useEffect(() => {
+    document.title = count > 0
+      ? `(${count > 99 ? '99+' : count}) ${baseTitleRef.current}`
+      : baseTitleRef.current;
+  }, [count]);
+
+  useEffect(() => {
+    const baseTitle = baseTitleRef.current;
+    return () => {
+      document.title = baseTitle;
+    };
+  }, []);
+};
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useChatBackend } from './useChatBackend';
+import {
+  loadOutbox,
+  removeOutboxEntry,
+  saveOutboxEntry,
+  OutboxEntry
+} from '../utils/outbox';
+
+// Tracks messages that haven't been acknowledged yet. Entries left over from
+// a previous page load are replayed on start and whenever the browser comes
+// back online.
+export const useOutbox = (uid: string | undefined) => {
+  const { messages } = useChatBackend();
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  // Ids with a write in progress, so a replay doesn't send them twice
+  const inFlightRef = useRef(new Set<string>());
+
+  const updateEntry = useCallback(async (entry: OutboxEntry) => {
+    setOutbox(prev => prev.some(item => item.id === entry.id)
+      ? prev.map(item => item.id === entry.id ? entry : item)
+      : [...prev, entry]);
+    try {
+      await saveOutboxEntry(entry);
+    } catch (error) {
+      console.error('Error saving outbox entry:', error);
+    }
+  }, []);
+
+  const deliver = useCallback(async (entry: OutboxEntry, isReplay: boolean) => {
+    if (inFlightRef.current.has(entry.id)) return;
+
+    inFlightRef.current.add(entry.id);
+    await updateEntry({ ...entry, status: 'sending' });
+    try {
+      // Resolves once the server has acknowledged the write
+      await messages.send(entry, { isReplay });
+      setOutbox(prev => prev.filter(item => item.id !== entry.id));
+      await removeOutboxEntry(entry.id);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      await updateEntry({ ...entry, status: 'failed' });
+    } finally {
+      inFlightRef.current.delete(entry.id);
+    }
+  }, [updateEntry, messages]);
+
+  useEffect(() => {
+    setOutbox([]);
+    if (!uid) return;
+
+    let cancelled = false;
+    const replay = async () => {
+      try {
+        const entries = await loadOutbox(uid);
+        if (cancelled) return;
+        setOutbox(entries);
+        entries
+          .filter(entry => entry.status === 'sending')
+          .forEach(entry => deliver(entry, true));
+      } catch (error) {
+        console.error('Error loading outbox:', error);
+      }
+    };
+
+    replay();
+    window.addEventListener('online', replay);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', replay);
+    };
+  }, [uid, deliver]);
+
+  const send = useCallback((entry: OutboxEntry) => deliver(entry, false), [deliver]);
+
+  const retry = useCallback((entry: OutboxEntry) => deliver(entry, true), [deliver]);
+
+  const discard = useCallback(async (entry: OutboxEntry) => {
+    setOutbox(prev => prev.filter(item => item.id !== entry.id));
+    try {
+      await removeOutboxEntry(entry.id);
+    } catch (error) {
+      console.error('Error discarding outbox entry:', error);
+    }
+  }, []);
+
+  return { outbox, send, retry, discard };
+};
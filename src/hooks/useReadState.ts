@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ReadReceipt } from '../types/chat';
+import { useChatBackend } from './useChatBackend';
+
+interface GroupActivity {
+  id: string;
+  members: string[];
+  lastMessageAt?: Date;
+}
+
+// Read receipts are only shown for groups up to this size
+export const SEEN_BY_MAX_MEMBERS = 10;
+
+// Tracks when the user last read each group and derives unread counts from it.
+export const useReadState = (
+  uid: string | undefined,
+  groups: GroupActivity[],
+  activeGroupId: string | undefined
+) => {
+  const { readState } = useChatBackend();
+  const [lastReadAt, setLastReadAt] = useState<Record<string, number>>({});
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [receipts, setReceipts] = useState<ReadReceipt[]>([]);
+
+  const groupIds = groups.map(group => group.id).join(',');
+
+  // Listen to our own read state in every group
+  useEffect(() => {
+    if (!uid || !groupIds) return;
+
+    const unsubscribes = groupIds.split(',').map(groupId =>
+      readState.subscribe(
+        groupId,
+        uid,
+        (readAt) => setLastReadAt(prev => ({ ...prev, [groupId]: readAt })),
+        (error) => {
+          console.error('Error listening to read state:', error);
+        }
+      )
+    );
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [uid, groupIds, readState]);
+
+  // Only count messages for groups with activity since we last read them
+  useEffect(() => {
+    let cancelled = false;
+
+    groups.forEach(async (group) => {
+      const readAt = lastReadAt[group.id];
+      if (readAt === undefined) return;
+
+      if (group.id === activeGroupId || (group.lastMessageAt?.getTime() ?? 0) <= readAt) {
+        setUnreadCounts(prev => prev[group.id] ? { ...prev, [group.id]: 0 } : prev);
+        return;
+      }
+
+      try {
+        const count = await readState.countUnread(group.id, readAt);
+        if (!cancelled) {
+          setUnreadCounts(prev => ({ ...prev, [group.id]: count }));
+        }
+      } catch (error) {
+        console.error('Error counting unread messages:', error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groups, lastReadAt, activeGroupId, readState]);
+
+  // Read receipts of everyone in the active group, for small groups only
+  const activeGroup = groups.find(group => group.id === activeGroupId);
+  const showReceipts = !!activeGroup && activeGroup.members.length <= SEEN_BY_MAX_MEMBERS;
+
+  useEffect(() => {
+    setReceipts([]);
+    if (!activeGroupId || !showReceipts) return;
+
+    const unsubscribe = readState.subscribeToReceipts(
+      activeGroupId,
+      setReceipts,
+      (error) => {
+        console.error('Error listening to read receipts:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [activeGroupId, showReceipts, readState]);
+
+  const markRead = useCallback(async (groupId: string, username: string) => {
+    if (!uid) return;
+
+    try {
+      await readState.markRead(groupId, uid, username);
+    } catch (error) {
+      console.error('Error updating read state:', error);
+    }
+  }, [uid, readState]);
+
+  return { lastReadAt, unreadCounts, receipts, markRead };
+};
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TypingEntry } from '../types/chat';
+import { useChatBackend } from './useChatBackend';
+
+// Write at most one typing update per interval while the user keeps typing
+const TYPING_THROTTLE_MS = 3000;
+// Stop showing the indicator if no keystroke arrives within this time
+const TYPING_IDLE_MS = 5000;
+// Entries older than this are treated as stale, e.g. after a closed tab
+const TYPING_STALE_MS = 8000;
+
+// Shows who else is typing in the group and publishes our own typing state
+export const useTypingIndicator = (
+  groupId: string | undefined,
+  uid: string | undefined,
+  username: string | undefined
+) => {
+  const { typing } = useChatBackend();
+  const [entries, setEntries] = useState<TypingEntry[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const lastWriteRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    setEntries([]);
+    if (!groupId) return;
+
+    const unsubscribe = typing.subscribe(
+      groupId,
+      setEntries,
+      (error) => {
+        console.error('Error listening to typing state:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [groupId, typing]);
+
+  // Re-evaluate staleness while anyone is shown as typing
+  useEffect(() => {
+    if (entries.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [entries.length]);
+
+  const stopTyping = useCallback(async () => {
+    clearTimeout(idleTimerRef.current);
+    if (!groupId || !uid || lastWriteRef.current === 0) return;
+
+    lastWriteRef.current = 0;
+    try {
+      await typing.clearTyping(groupId, uid);
+    } catch (error) {
+      console.error('Error clearing typing state:', error);
+    }
+  }, [groupId, uid, typing]);
+
+  const notifyTyping = useCallback(async () => {
+    if (!groupId || !uid || !username) return;
+
+    clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+
+    if (Date.now() - lastWriteRef.current < TYPING_THROTTLE_MS) return;
+    lastWriteRef.current = Date.now();
+    try {
+      await typing.setTyping(groupId, uid, username);
+    } catch (error) {
+      console.error('Error updating typing state:', error);
+    }
+  }, [groupId, uid, username, stopTyping, typing]);
+
+  // Clear our typing state when switching groups or leaving the page
+  useEffect(() => () => {
+    stopTyping();
+  }, [stopTyping]);
+
+  const typingUsers = entries
+    .filter(entry => entry.uid !== uid && now - entry.updatedAt < TYPING_STALE_MS)
+    .map(entry => entry.username);
+
+  return { typingUsers, notifyTyping, stopTyping };
+};
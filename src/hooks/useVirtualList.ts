@@ -0,0 +1,219 @@
+import { RefObject, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListOptions {
+  // Used for items that haven't been rendered yet
+  estimatedHeight?: number;
+  // How far beyond the viewport to render, in pixels
+  overscan?: number;
+  // Changing this starts the list over at the bottom, e.g. on a group switch
+  resetKey?: string;
+  // Whether the last items are the newest, so reaching the bottom follows
+  // new items. Off while showing an older stretch of a longer list.
+  followBottom?: boolean;
+}
+
+interface ScrollAnchor {
+  // Following the newest items at the bottom
+  atBottom: boolean;
+  // The item at the top of the viewport, and how far into it the viewport starts
+  key?: string;
+  offset: number;
+}
+
+const BOTTOM_THRESHOLD = 40;
+
+// Attribute the rendered items carry so their heights can be measured
+const VIRTUAL_KEY_ATTRIBUTE = 'data-virtual-key';
+
+// Index of the item containing `position`, given the items' top offsets
+// (with the total height as the last entry)
+const findItem = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = Math.max(offsets.length - 2, 0);
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+// Renders only the items near the viewport of a scroll container. Heights
+// are measured as items render and estimated until then. The scroll position
+// is anchored to the item at the top of the viewport, so older items loading
+// above it or items changing height don't move what's on screen. At the
+// bottom the list follows new items instead.
+//
+// Render the items from `start` to `end` between spacers of `paddingTop` and
+// `paddingBottom`, inside the element `listRef` is attached to, each with a
+// data-virtual-key attribute holding its key. Call `handleScroll` on scroll.
+export const useVirtualList = (
+  containerRef: RefObject<HTMLElement>,
+  keys: string[],
+  { estimatedHeight = 96, overscan = 800, resetKey, followBottom = true }: VirtualListOptions = {}
+) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const anchorRef = useRef<ScrollAnchor>({ atBottom: true, offset: 0 });
+  const followBottomRef = useRef(followBottom);
+  followBottomRef.current = followBottom;
+
+  const offsets = useMemo(() => {
+    const offsets = [0];
+    keys.forEach((key, index) => {
+      offsets.push(offsets[index] + (heights.get(key) ?? estimatedHeight));
+    });
+    return offsets;
+  }, [keys, heights, estimatedHeight]);
+
+  // Read by the scroll handlers between renders
+  const layoutRef = useRef({ keys, offsets });
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+
+    const { offsets } = layoutRef.current;
+    const top = container.scrollTop - list.offsetTop;
+    const start = findItem(offsets, top - overscan);
+    const end = Math.min(
+      findItem(offsets, top + container.clientHeight + overscan) + 1,
+      offsets.length - 1
+    );
+    setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+  }, [containerRef, overscan]);
+
+  const updateAnchor = useCallback(() => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+
+    const { keys, offsets } = layoutRef.current;
+    const top = Math.max(container.scrollTop - list.offsetTop, 0);
+    const index = findItem(offsets, top);
+    anchorRef.current = {
+      atBottom: followBottomRef.current
+        && container.scrollHeight - container.scrollTop - container.clientHeight < BOTTOM_THRESHOLD,
+      key: keys[index],
+      offset: top - offsets[index]
+    };
+  }, [containerRef]);
+
+  const handleScroll = useCallback(() => {
+    updateAnchor();
+    updateRange();
+  }, [updateAnchor, updateRange]);
+
+  // Scroll to the anchor again whenever the layout changes. Skipped when it
+  // hasn't moved, so smooth scrolling isn't interrupted.
+  const restoreAnchor = useCallback(() => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+
+    const { keys, offsets } = layoutRef.current;
+    const anchor = anchorRef.current;
+    let scrollTop = container.scrollTop;
+    if (anchor.atBottom) {
+      scrollTop = container.scrollHeight - container.clientHeight;
+    } else if (anchor.key !== undefined) {
+      const index = keys.indexOf(anchor.key);
+      if (index >= 0) {
+        scrollTop = list.offsetTop + offsets[index] + anchor.offset;
+      }
+    }
+
+    if (Math.abs(container.scrollTop - scrollTop) > 1) {
+      container.scrollTop = scrollTop;
+    }
+  }, [containerRef]);
+
+  useLayoutEffect(() => {
+    anchorRef.current = { atBottom: true, offset: 0 };
+  }, [resetKey]);
+
+  useLayoutEffect(() => {
+    layoutRef.current = { keys, offsets };
+    restoreAnchor();
+    updateRange();
+  }, [keys, offsets, restoreAnchor, updateRange]);
+
+  // Measure the rendered items. Only heights that changed cause a render.
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const observer = new ResizeObserver((entries) => {
+      setHeights(prev => {
+        let next = prev;
+        entries.forEach(({ target }) => {
+          const key = target.getAttribute(VIRTUAL_KEY_ATTRIBUTE);
+          const height = (target as HTMLElement).offsetHeight;
+          if (key === null || !target.isConnected || prev.get(key) === height) return;
+          if (next === prev) next = new Map(prev);
+          next.set(key, height);
+        });
+        return next;
+      });
+    });
+    list.querySelectorAll(`[${VIRTUAL_KEY_ATTRIBUTE}]`).forEach(item => observer.observe(item));
+
+    return () => observer.disconnect();
+  });
+
+  // The viewport changing size changes what's visible, and keeps the bottom
+  // in view when following it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => {
+      restoreAnchor();
+      updateRange();
+    });
+    observer.observe(container);
+
+    return () => observer.disconnect();
+  }, [containerRef, resetKey, restoreAnchor, updateRange]);
+
+  const scrollToKey = useCallback((key: string) => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    const { keys, offsets } = layoutRef.current;
+    const index = keys.indexOf(key);
+    if (!container || !list || index < 0) return;
+
+    const height = offsets[index + 1] - offsets[index];
+    container.scrollTop = list.offsetTop + offsets[index] - (container.clientHeight - height) / 2;
+    handleScroll();
+  }, [containerRef, handleScroll]);
+
+  const scrollToBottom = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Not smooth: the items on the way would render and move the anchor
+    anchorRef.current = { atBottom: true, offset: 0 };
+    container.scrollTop = container.scrollHeight;
+    updateRange();
+  }, [containerRef, updateRange]);
+
+  const start = Math.min(range.start, keys.length);
+  const end = Math.min(Math.max(range.end, start), keys.length);
+
+  return {
+    listRef,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[keys.length] - offsets[end],
+    handleScroll,
+    scrollToKey,
+    scrollToBottom
+  };
+};
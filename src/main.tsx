@@ -2,9 +2,22 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { ChatBackendContext } from './hooks/useChatBackend'
+import { ChatBackend } from './backend/chatBackend'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
\ No newline at end of file
+// VITE_CHAT_BACKEND=memory runs the UI against an in-memory backend. Only
+// the chosen one is loaded, so that doesn't load Firebase.
+const loadBackend = async (): Promise<ChatBackend> =>
+  import.meta.env.VITE_CHAT_BACKEND === 'memory'
+    ? (await import('./backend/memoryBackend')).createMemoryBackend()
+    : (await import('./backend/firestoreBackend')).firestoreBackend
+
+loadBackend().then((backend) => {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <ChatBackendContext.Provider value={backend}>
+        <App />
+      </ChatBackendContext.Provider>
+    </React.StrictMode>,
+  )
+})
\ No newline at end of file
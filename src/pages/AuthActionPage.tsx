@@ -0,0 +1,318 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useLocation, useSearchParams } from 'react-router-dom';
+import { AuthError } from 'firebase/auth';
+import { Loader2 } from 'lucide-react';
+import { useChatBackend } from '../hooks/useChatBackend';
+import { emailLinkPath } from '../utils/routes';
+
+type ActionStatus = 'loading' | 'ready' | 'done' | 'error';
+
+const describeActionError = (err: unknown) => {
+  const firebaseError = err as AuthError;
+  switch (firebaseError.code) {
+    case 'auth/expired-action-code':
+      return 'This link has expired. Please request a new one.';
+    case 'auth/invalid-action-code':
+      return 'This link is invalid or has already been used.';
+    case 'auth/user-disabled':
+      return 'This account has been disabled.';
+    case 'auth/user-not-found':
+      return 'The account this link was sent for no longer exists.';
+    case 'auth/weak-password':
+      return 'Password should be at least 6 characters long.';
+    default:
+      return firebaseError.message;
+  }
+};
+
+// Handles the links in Firebase's emails in the app instead of on the
+// Firebase-hosted pages: password resets, email verification and confirming
+// or undoing an email change
+const AuthActionPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const { auth } = useChatBackend();
+  const mode = searchParams.get('mode');
+  const code = searchParams.get('oobCode') ?? '';
+
+  const [status, setStatus] = useState<ActionStatus>('loading');
+  const [email, setEmail] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  // Codes only work once, so don't apply them twice in StrictMode
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    const fail = (err: unknown) => {
+      console.error('Error handling email action:', err);
+      setError(describeActionError(err));
+      setStatus('error');
+    };
+
+    const verifyEmail = async () => {
+      try {
+        const verifiedEmail = await auth.applyEmailActionCode(code);
+
+        // Update the verification status on the profile, like VerifyEmail
+        const user = auth.currentUser();
+        if (user && user.email === verifiedEmail) {
+          try {
+            await auth.markEmailVerified(user.uid);
+          } catch (error) {
+            console.error('Error updating verification status:', error);
+          }
+        }
+
+        setMessage('Your email has been verified.');
+        setStatus('done');
+      } catch (err) {
+        fail(err);
+      }
+    };
+
+    const changeEmail = async () => {
+      try {
+        const changedEmail = await auth.applyEmailActionCode(code);
+        setMessage(`Your email has been changed to ${changedEmail ?? 'the new address'}. Sign in with it from now on.`);
+        setStatus('done');
+      } catch (err) {
+        fail(err);
+      }
+    };
+
+    const recoverEmail = async () => {
+      try {
+        const restoredEmail = await auth.applyEmailActionCode(code);
+        setEmail(restoredEmail);
+        setMessage(`Your email has been changed back to ${restoredEmail ?? 'its previous address'}.`);
+        setStatus('done');
+      } catch (err) {
+        fail(err);
+      }
+    };
+
+    const checkResetCode = async () => {
+      try {
+        setEmail(await auth.verifyPasswordResetCode(code));
+        setStatus('ready');
+      } catch (err) {
+        fail(err);
+      }
+    };
+
+    if (!code) {
+      setError('This link is invalid or incomplete.');
+      setStatus('error');
+    } else if (mode === 'verifyEmail') {
+      verifyEmail();
+    } else if (mode === 'verifyAndChangeEmail') {
+      changeEmail();
+    } else if (mode === 'recoverEmail') {
+      recoverEmail();
+    } else if (mode === 'resetPassword') {
+      checkResetCode();
+    } else if (mode !== 'signIn') {
+      setError('This link is invalid or incomplete.');
+      setStatus('error');
+    }
+  }, [auth, mode, code]);
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await auth.confirmPasswordReset(code, password);
+      setMessage('Your password has been changed. You can sign in with it now.');
+      setStatus('done');
+    } catch (err) {
+      console.error('Error resetting password:', err);
+      // The code can expire while the form is open
+      const errorCode = (err as AuthError).code;
+      if (errorCode === 'auth/expired-action-code' || errorCode === 'auth/invalid-action-code') {
+        setStatus('error');
+      }
+      setError(describeActionError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Someone undoing an email change they didn't make should secure the
+  // account too
+  const handleSendPasswordReset = async () => {
+    if (!email) return;
+
+    setLoading(true);
+    try {
+      await auth.sendPasswordReset(email);
+      setMessage(`Password reset email sent to ${email}.`);
+      setEmail(null);
+    } catch (err) {
+      console.error('Error sending password reset:', err);
+      setError(describeActionError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sign-in links come here too once the action URL points at the app
+  if (mode === 'signIn') {
+    return <Navigate to={`${emailLinkPath}${location.search}`} replace />;
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-[#0B1121] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const title = mode === 'resetPassword'
+    ? 'Reset Password'
+    : mode === 'recoverEmail'
+      ? 'Email Restored'
+      : mode === 'verifyAndChangeEmail'
+        ? 'Email Changed'
+        : 'Verify Email';
+
+  return (
+    <div className="min-h-screen bg-[#0B1121] text-white flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md p-8 rounded-2xl bg-gray-800/50 border border-gray-700/50">
+        <h2 className="text-3xl font-bold text-center mb-8 bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+          {title}
+        </h2>
+
+        {status === 'ready' && (
+          <form onSubmit={handleResetPassword} className="space-y-6">
+            <p className="text-sm text-gray-400">
+              Choose a new password for {email}. Your messages stay locked with
+              your old password, so you'll need it to read them on a new device.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">New password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                  focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                  transition-colors"
+                placeholder="Enter a new password"
+                required
+                minLength={6}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Confirm password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                  focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                  transition-colors"
+                placeholder="Re-enter the new password"
+                required
+                minLength={6}
+              />
+            </div>
+
+            {error && (
+              <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700
+                transition-colors font-medium text-white focus:ring-2
+                focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800
+                disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Please wait...' : 'Change Password'}
+            </button>
+          </form>
+        )}
+
+        {status === 'done' && (
+          <div className="space-y-4">
+            <div className="text-green-400 text-sm bg-green-400/10 p-3 rounded-lg border border-green-400/20">
+              {message}
+            </div>
+
+            {mode === 'recoverEmail' && email && (
+              <>
+                <p className="text-sm text-gray-400">
+                  If you didn't change it yourself, reset your password as well.
+                </p>
+                <button
+                  onClick={handleSendPasswordReset}
+                  disabled={loading}
+                  className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700
+                    transition-colors font-medium text-white
+                    disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Please wait...' : 'Send Password Reset Email'}
+                </button>
+              </>
+            )}
+
+            {error && (
+              <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+                {error}
+              </div>
+            )}
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 text-center space-y-2">
+          {status === 'error' && mode === 'verifyEmail' && (
+            <div>
+              <Link to="/verify-email" className="text-purple-400 hover:text-purple-300 transition-colors">
+                Send a new verification email
+              </Link>
+            </div>
+          )}
+          <div>
+            <Link
+              to={status === 'done' && mode === 'verifyEmail' ? '/chats' : '/auth'}
+              className="text-purple-400 hover:text-purple-300 transition-colors"
+            >
+              {status === 'done' && mode === 'verifyEmail' ? 'Continue to chats' : 'Back to sign in'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuthActionPage;
@@ -1,15 +1,17 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { 
-  createUserWithEmailAndPassword, 
-  signInWithEmailAndPassword, 
-  sendEmailVerification,
-  sendPasswordResetEmail,
-  updateProfile,
-  AuthError 
-} from 'firebase/auth';
-import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
-import { auth, db } from '../config/firebase';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { AuthError } from 'firebase/auth';
+import { useChatBackend } from '../hooks/useChatBackend';
+import {
+  AuthUser,
+  OAuthProviderId,
+  SecondFactorChallenge,
+  SecondFactorRequiredError,
+  UsernameTakenError
+} from '../backend/chatBackend';
+import { RedirectState, emailLinkPath } from '../utils/routes';
+import { saveEmailForSignIn } from '../utils/emailLink';
+import { OAUTH_PROVIDERS, hasVerifiedEmail } from '../utils/authProviders';
 
 const AuthPage: React.FC = () => {
   const [isSignUp, setIsSignUp] = useState(false);
@@ -19,55 +21,74 @@ const AuthPage: React.FC = () => {
   const [username, setUsername] = useState('');
   const [error, setError] = useState('');
   const [resetMode, setResetMode] = useState(false);
+  // Passwordless sign-in with an emailed link
+  const [linkMode, setLinkMode] = useState(false);
+  // Set while a sign-in waits for a code from the authenticator app
+  const [secondFactor, setSecondFactor] = useState<SecondFactorChallenge | null>(null);
+  const [totpCode, setTotpCode] = useState('');
   const [message, setMessage] = useState('');
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  const { auth } = useChatBackend();
+  // Pass on where to go after signing in, e.g. a shared message link
+  const redirectState = location.state as RedirectState | null;
 
-  const createUserDocument = async (
-    uid: string, 
-    email: string, 
-    username: string
-  ) => {
+  const handlePasswordReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
     try {
-      // Create user document
-      const userRef = doc(db, 'users', uid);
-      await setDoc(userRef, {
-        email,
-        username,
-        emailVerified: false,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        lastLoginAt: new Date()
-      });
-
-      // Create username document for uniqueness
-      const usernameRef = doc(db, 'usernames', username.toLowerCase());
-      await setDoc(usernameRef, {
-        uid
-      });
-    } catch (error) {
-      console.error('Error creating user document:', error);
-      throw error;
+      await auth.sendPasswordReset(email);
+      setMessage('Password reset email sent! Check your inbox.');
+      setError('');
+    } catch (err) {
+      const firebaseError = err as AuthError;
+      setError(firebaseError.message);
+    } finally {
+      setLoading(false);
     }
   };
 
-  // Check if username exists
-  const checkUsername = async (username: string): Promise<boolean> => {
-    const usernameRef = doc(db, 'usernames', username.toLowerCase());
-    const usernameDoc = await getDoc(usernameRef);
-    return usernameDoc.exists();
+  const continueAfterSignIn = (user: AuthUser) => {
+    if (!hasVerifiedEmail(user)) {
+      navigate('/verify-email', { state: redirectState });
+    } else {
+      navigate(redirectState?.from ?? '/chats');
+    }
   };
 
-  const handlePasswordReset = async (e: React.FormEvent) => {
+  const handleSecondFactor = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!secondFactor) return;
+
+    setError('');
     setLoading(true);
     try {
-      await sendPasswordResetEmail(auth, email);
-      setMessage('Password reset email sent! Check your inbox.');
-      setError('');
+      continueAfterSignIn(await secondFactor.resolve(totpCode.trim()));
     } catch (err) {
       const firebaseError = err as AuthError;
-      setError(firebaseError.message);
+      setError(firebaseError.code === 'auth/invalid-verification-code'
+        ? 'That code is incorrect. Enter the current one from your authenticator app.'
+        : firebaseError.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendSignInLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setLoading(true);
+    try {
+      await auth.sendSignInLink(email, `${window.location.origin}${emailLinkPath}`);
+      saveEmailForSignIn(email);
+      setMessage('Sign-in link sent! Check your inbox.');
+    } catch (err) {
+      const firebaseError = err as AuthError;
+      setError(firebaseError.code === 'auth/invalid-email'
+        ? 'Please enter a valid email address.'
+        : firebaseError.message);
     } finally {
       setLoading(false);
     }
@@ -103,47 +124,33 @@ const AuthPage: React.FC = () => {
         }
 
         // Check username availability
-        const usernameExists = await checkUsername(username);
-        if (usernameExists) {
+        if (await auth.isUsernameTaken(username)) {
           setError('Username is already taken');
           return;
         }
 
-        // Create user
-        const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-        const user = userCredential.user;
-
-        // Update profile with username
-        await updateProfile(user, {
-          displayName: username
-        });
-
-        // Create user document
-        await createUserDocument(user.uid, email, username);
+        // Create the account, its profile and encryption keys, and send
+        // the verification email
+        await auth.signUp({ email, password, username });
 
-        // Send verification email
-        await sendEmailVerification(user);
-        
         setMessage('Account created! Please check your email for verification.');
-        navigate('/verify-email');
+        navigate('/verify-email', { state: redirectState });
       } else {
-        // Sign in
-        const userCredential = await signInWithEmailAndPassword(auth, email, password);
-        const user = userCredential.user;
-        
-        // Update last login
-        const userRef = doc(db, 'users', user.uid);
-        await updateDoc(userRef, {
-          lastLoginAt: new Date()
-        });
-
-        if (!user.emailVerified) {
-          navigate('/verify-email');
-        } else {
-          navigate('/chats');
-        }
+        // Sign in, this also unlocks the encryption keys on this device
+        continueAfterSignIn(await auth.signIn(email, password));
       }
     } catch (err) {
+      if (err instanceof SecondFactorRequiredError) {
+        setSecondFactor(err.challenge);
+        setTotpCode('');
+        return;
+      }
+      // Someone claimed the name between the check above and signing up
+      if (err instanceof UsernameTakenError) {
+        setError('Username is already taken');
+        return;
+      }
+
       const firebaseError = err as AuthError;
       switch (firebaseError.code) {
         case 'auth/email-already-in-use':
@@ -167,10 +174,164 @@ const AuthPage: React.FC = () => {
     }
   };
 
+  const handleProviderSignIn = async (providerId: OAuthProviderId) => {
+    setError('');
+    setMessage('');
+    setLoading(true);
+
+    try {
+      const { user, needsProfile } = await auth.signInWithProvider(providerId);
+
+      // First-time users pick a username before anything else
+      if (needsProfile) {
+        navigate('/choose-username', { state: redirectState });
+      } else {
+        continueAfterSignIn(user);
+      }
+    } catch (err) {
+      if (err instanceof SecondFactorRequiredError) {
+        setSecondFactor(err.challenge);
+        setTotpCode('');
+        return;
+      }
+
+      const firebaseError = err as AuthError;
+      switch (firebaseError.code) {
+        case 'auth/popup-closed-by-user':
+        case 'auth/cancelled-popup-request':
+          break;
+        case 'auth/account-exists-with-different-credential':
+          setError('An account with this email already exists. Sign in with your password, then connect this provider in Settings.');
+          break;
+        default:
+          setError(firebaseError.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-[#0B1121] text-white flex items-center justify-center px-4 py-12">
       <div className="w-full max-w-md p-8 rounded-2xl bg-gray-800/50 border border-gray-700/50">
-        {!resetMode ? (
+        {secondFactor ? (
+          <>
+            <h2 className="text-3xl font-bold text-center mb-8 bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+              Two-Factor Authentication
+            </h2>
+
+            <form onSubmit={handleSecondFactor} className="space-y-6">
+              <p className="text-sm text-gray-400">
+                Enter the 6-digit code from your authenticator app, or from any
+                other device you added the same key to. Without the app, enter
+                one of your backup codes.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Code</label>
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value)}
+                  className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                    focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                    transition-colors tracking-widest"
+                  placeholder="123456"
+                  required
+                  maxLength={11}
+                />
+              </div>
+
+              {error && (
+                <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700
+                  transition-colors font-medium text-white focus:ring-2
+                  focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800
+                  disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Please wait...' : 'Verify'}
+              </button>
+            </form>
+
+            <div className="mt-6 text-center">
+              <button
+                onClick={() => {
+                  setSecondFactor(null);
+                  setError('');
+                }}
+                className="text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </>
+        ) : linkMode ? (
+          <>
+            <h2 className="text-3xl font-bold text-center mb-8 bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+              Sign In With a Link
+            </h2>
+
+            <form onSubmit={handleSendSignInLink} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium mb-2">Email</label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                    focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                    transition-colors"
+                  placeholder="Enter your email"
+                  required
+                />
+              </div>
+
+              {error && (
+                <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+                  {error}
+                </div>
+              )}
+
+              {message && (
+                <div className="text-green-400 text-sm bg-green-400/10 p-3 rounded-lg border border-green-400/20">
+                  {message}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700
+                  transition-colors font-medium text-white focus:ring-2
+                  focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800
+                  disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Please wait...' : 'Send Sign-In Link'}
+              </button>
+            </form>
+
+            <div className="mt-6 text-center">
+              <button
+                onClick={() => {
+                  setLinkMode(false);
+                  setError('');
+                  setMessage('');
+                }}
+                className="text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </>
+        ) : !resetMode ? (
           <>
             <h2 className="text-3xl font-bold text-center mb-8 bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
               {isSignUp ? 'Create Account' : 'Welcome Back'}
@@ -264,14 +425,48 @@ const AuthPage: React.FC = () => {
               </button>
             </form>
 
-            <div className="mt-6 text-center space-y-4">
-              {!isSignUp && (
+            <div className="my-6 flex items-center space-x-3 text-sm text-gray-500">
+              <div className="flex-1 border-t border-gray-700" />
+              <span>or</span>
+              <div className="flex-1 border-t border-gray-700" />
+            </div>
+
+            <div className="space-y-3">
+              {OAUTH_PROVIDERS.map(provider => (
                 <button
-                  onClick={() => setResetMode(true)}
-                  className="text-purple-400 hover:text-purple-300 transition-colors text-sm"
+                  key={provider.id}
+                  type="button"
+                  onClick={() => handleProviderSignIn(provider.id)}
+                  disabled={loading}
+                  className="w-full py-3 rounded-lg bg-gray-700 hover:bg-gray-600 border border-gray-600
+                    transition-colors font-medium text-white
+                    disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Forgot password?
+                  Continue with {provider.label}
                 </button>
+              ))}
+            </div>
+
+            <div className="mt-6 text-center space-y-4">
+              {!isSignUp && (
+                <div className="flex justify-center space-x-4">
+                  <button
+                    onClick={() => setResetMode(true)}
+                    className="text-purple-400 hover:text-purple-300 transition-colors text-sm"
+                  >
+                    Forgot password?
+                  </button>
+                  <button
+                    onClick={() => {
+                      setLinkMode(true);
+                      setError('');
+                      setMessage('');
+                    }}
+                    className="text-purple-400 hover:text-purple-300 transition-colors text-sm"
+                  >
+                    Email me a sign-in link
+                  </button>
+                </div>
               )}
 
               <div>
@@ -1,22 +1,5 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { auth, db } from '../config/firebase';
-import { 
-  collection, 
-  query, 
-  orderBy, 
-  limit, 
-  getDocs, 
-  doc, 
-  getDoc,
-  addDoc,
-  serverTimestamp,
-  onSnapshot,
-  where,
-  updateDoc,
-  arrayUnion,
-  startAfter
-} from 'firebase/firestore';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { 
   LogOut, 
   MessageSquare, 
@@ -26,42 +9,78 @@ import {
   Loader2,
   Send,
   Copy,
-  UserPlus
+  UserPlus,
+  Lock,
+  Pencil,
+  Trash2,
+  Check,
+  MessageCircle,
+  SmilePlus,
+  AtSign,
+  Users,
+  Shield,
+  Crown,
+  Paperclip,
+  FileText,
+  Download,
+  Search,
+  Bell,
+  BellOff,
+  Moon,
+  Clock,
+  AlertCircle,
+  RotateCcw,
+  Link2,
+  SearchX,
+  Settings,
+  ArrowDown
 } from 'lucide-react';
+import { getRole, isAdmin, canRemoveMember } from '../utils/groupRoles';
+import { isInviteActive } from '../utils/inviteCodes';
+import {
+  validateAttachment,
+  isImageAttachment,
+  formatFileSize,
+  MAX_ATTACHMENTS_PER_MESSAGE
+} from '../utils/attachments';
+import { Attachment, Group, Invite, Mention, Message, UserData } from '../types/chat';
+import { IndexedMessage, SearchFilters } from '../utils/messageSearch';
+import { useMessageSearch } from '../hooks/useMessageSearch';
+import { parseMarkdown, BlockNode, InlineNode } from '../utils/markdown';
+import { highlightCode, TokenType } from '../utils/highlight';
+import {
+  getMentionQuery,
+  insertMention,
+  resolveMentions,
+  suggestMentions,
+  MentionQuery
+} from '../utils/mentions';
+import { useMentions } from '../hooks/useMentions';
+import {
+  useNotificationSettings,
+  useMessageNotifications,
+  useTitleBadge
+} from '../hooks/useNotifications';
+import {
+  NOTIFICATION_LEVELS,
+  getGroupLevel,
+  notificationsSupported,
+  requestNotificationPermission
+} from '../utils/notifications';
+import { NotificationLevel } from '../types/user';
+import { OutboxEntry } from '../utils/outbox';
+import { useOutbox } from '../hooks/useOutbox';
+import { useReadState } from '../hooks/useReadState';
+import { useTypingIndicator } from '../hooks/useTypingIndicator';
+import { useChatBackend } from '../hooks/useChatBackend';
+import { applyMessageChanges, mergeMessages, useGroupMessages } from '../hooks/useGroupMessages';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { GroupAccess } from '../backend/chatBackend';
+import { groupPath, messagePath } from '../utils/routes';
 
-interface Message {
-  id: string;
-  content: string;
-  senderId: string;
-  senderName: string;
-  timestamp: {
-    seconds: number;
-    nanoseconds: number;
-  };
-  groupId: string;
-  createdAt?: string;
-}
-
-interface Group {
-  id: string;
-  name: string;
-  description: string;
-  createdBy: string;
-  createdAt: Date;
-  members: string[];
-  inviteCode?: string;
-}
-
-interface UserData {
-  username: string;
-  email: string;
-  emailVerified: boolean;
-}
-
-const formatFirestoreTimestamp = (timestamp: any) => {
-  if (!timestamp) return '';
+const formatMessageTime = (date?: Date | null) => {
+  if (!date) return '';
   try {
-    const date = new Date(timestamp.seconds * 1000);
     return date.toLocaleTimeString([], {
       hour: '2-digit',
       minute: '2-digit',
@@ -73,13 +92,789 @@ const formatFirestoreTimestamp = (timestamp: any) => {
   }
 };
 
+const MESSAGES_PER_PAGE = 25;
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-purple-300'
+};
+
+const MarkdownInline: React.FC<{ nodes: InlineNode[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <React.Fragment key={index}>{node.text}</React.Fragment>;
+        case 'code':
+          return (
+            <code key={index} className="px-1 py-0.5 rounded bg-gray-900/60 font-mono text-sm">
+              {node.text}
+            </code>
+          );
+        case 'bold':
+          return <strong key={index}><MarkdownInline nodes={node.children} /></strong>;
+        case 'italic':
+          return <em key={index}><MarkdownInline nodes={node.children} /></em>;
+        case 'strike':
+          return <s key={index}><MarkdownInline nodes={node.children} /></s>;
+        case 'mention':
+          return (
+            <span key={index} className="px-0.5 rounded bg-purple-500/30 text-purple-200 font-medium">
+              @{node.username}
+            </span>
+          );
+        case 'link':
+          return (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="text-purple-300 underline hover:text-purple-200"
+            >
+              <MarkdownInline nodes={node.children} />
+            </a>
+          );
+      }
+    })}
+  </>
+);
+
+const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, code }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className="relative my-1 rounded-lg bg-gray-900/80 border border-gray-700">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-gray-700 text-xs text-gray-400">
+        <span>{language || 'code'}</span>
+        <button
+          onClick={handleCopy}
+          className="p-1 hover:bg-gray-700 rounded transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm font-mono">
+        <code>
+          {highlightCode(code, language).map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const MarkdownBlocks: React.FC<{ blocks: BlockNode[] }> = ({ blocks }) => (
+  <>
+    {blocks.map((block, index) => {
+      switch (block.type) {
+        case 'paragraph':
+          return (
+            <p key={index} className="whitespace-pre-wrap">
+              <MarkdownInline nodes={block.children} />
+            </p>
+          );
+        case 'code':
+          return <CodeBlock key={index} language={block.language} code={block.code} />;
+        case 'quote':
+          return (
+            <blockquote key={index} className="border-l-2 border-gray-500 pl-3 text-gray-300">
+              <MarkdownBlocks blocks={block.children} />
+            </blockquote>
+          );
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag
+              key={index}
+              start={block.ordered ? block.start : undefined}
+              className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+            >
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}><MarkdownInline nodes={item} /></li>
+              ))}
+            </ListTag>
+          );
+        }
+      }
+    })}
+  </>
+);
+
+// Message text is rendered as React elements from a parsed Markdown tree,
+// never as HTML, so it can't inject markup or scripts
+const MarkdownContent: React.FC<{ text: string }> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className="break-words space-y-1">
+      <MarkdownBlocks blocks={blocks} />
+    </div>
+  );
+};
+
+// Enter sends, Shift+Enter adds a new line. Enter while an IME is composing
+// confirms the composition instead.
+const submitOnEnter = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+  if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+    e.preventDefault();
+    e.currentTarget.form?.requestSubmit();
+  }
+};
+
+// Grow the composer with its content up to a few lines, then scroll
+const composerRows = (text: string) => Math.min(text.split('\n').length, 8);
+
+type MentionTextareaProps = Omit<
+  React.TextareaHTMLAttributes<HTMLTextAreaElement>,
+  'value' | 'onChange'
+> & {
+  value: string;
+  onValueChange: (value: string) => void;
+  // Usernames of the group's members, keyed by uid
+  memberNames: Record<string, string>;
+};
+
+// Textarea that suggests group members after typing @
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onValueChange,
+  memberNames,
+  onKeyDown,
+  ...props
+}) => {
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { auth } = useChatBackend();
+
+  const suggestions = mentionQuery
+    ? suggestMentions(mentionQuery.query, memberNames, auth.currentUser()?.uid)
+    : [];
+
+  const updateMentionQuery = (textarea: HTMLTextAreaElement) => {
+    setMentionQuery(getMentionQuery(textarea.value, textarea.selectionStart));
+    setActiveIndex(0);
+  };
+
+  const pickSuggestion = (username: string) => {
+    if (!mentionQuery) return;
+
+    const { text, caret } = insertMention(value, mentionQuery, username);
+    onValueChange(text);
+    setMentionQuery(null);
+    // Restore the caret once React has applied the new value
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        pickSuggestion(suggestions[activeIndex].username);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative flex-1 flex">
+      {suggestions.length > 0 && (
+        <div className="absolute bottom-full left-0 mb-2 w-64 bg-gray-800 border border-gray-700 rounded-lg
+          shadow-lg overflow-hidden z-10">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.uid}
+              type="button"
+              // Keep focus in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pickSuggestion(suggestion.username)}
+              className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 ${
+                index === activeIndex ? 'bg-purple-500/20 text-purple-300' : 'hover:bg-gray-700'
+              }`}
+            >
+              <AtSign className="w-4 h-4" />
+              <span>{suggestion.username}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          updateMentionQuery(e.target);
+        }}
+        onSelect={(e) => updateMentionQuery(e.currentTarget)}
+        onKeyDown={handleKeyDown}
+      />
+    </div>
+  );
+};
+
+// Decrypts the message body when the bubble is rendered
+const MessageContent: React.FC<{
+  message: Pick<Message, 'groupId' | 'content' | 'encrypted'>;
+}> = ({ message }) => {
+  const [plaintext, setPlaintext] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { encrypted, groupId, content } = message;
+  const { auth, messages } = useChatBackend();
+  const uid = auth.currentUser()?.uid;
+
+  useEffect(() => {
+    if (!encrypted || !uid) return;
+
+    let cancelled = false;
+    setFailed(false);
+    messages.openBody({ groupId, encrypted }, uid)
+      .then((text) => {
+        if (!cancelled) setPlaintext(text);
+      })
+      .catch((error) => {
+        console.error('Error decrypting message:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [encrypted, groupId, uid, messages]);
+
+  if (!encrypted) {
+    return content ? <MarkdownContent text={content} /> : null;
+  }
+
+  if (failed) {
+    return (
+      <div className="italic text-gray-400 flex items-center gap-1">
+        <Lock className="w-3 h-3" />
+        Unable to decrypt this message
+      </div>
+    );
+  }
+
+  if (plaintext === null) {
+    return <div>…</div>;
+  }
+
+  return <MarkdownContent text={plaintext} />;
+};
+
+// Loads the mentioning message for the mentions inbox
+const MentionPreview: React.FC<{ messageId: string }> = ({ messageId }) => {
+  const [message, setMessage] = useState<Message | null>(null);
+  const [missing, setMissing] = useState(false);
+  const { messages } = useChatBackend();
+
+  useEffect(() => {
+    let cancelled = false;
+    messages.get(messageId)
+      .then((loaded) => {
+        if (cancelled) return;
+        if (loaded) {
+          setMessage(loaded);
+        } else {
+          setMissing(true);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading mentioned message:', error);
+        if (!cancelled) setMissing(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, messages]);
+
+  if (missing || message?.deletedAt) {
+    return <div className="italic text-sm text-gray-400">message deleted</div>;
+  }
+  if (!message) {
+    return <div className="text-sm text-gray-400">…</div>;
+  }
+  return (
+    <div className="text-sm line-clamp-3">
+      <MessageContent message={message} />
+    </div>
+  );
+};
+
+const getGroupDisplayName = (group: Group, myUid: string | undefined) => {
+  if (group.type !== 'dm') return group.name;
+  const otherUid = group.members.find(uid => uid !== myUid);
+  return (otherUid && group.memberNames?.[otherUid]) || 'unknown';
+};
+
+const INVITE_EXPIRY_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '1 hour', value: 60 * 60 * 1000 },
+  { label: '1 day', value: 24 * 60 * 60 * 1000 },
+  { label: '7 days', value: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Never', value: null }
+];
+
+const INVITE_MAX_USES_OPTIONS: { label: string; value: number | null }[] = [
+  { label: 'No limit', value: null },
+  { label: '1 use', value: 1 },
+  { label: '5 uses', value: 5 },
+  { label: '10 uses', value: 10 },
+  { label: '25 uses', value: 25 }
+];
+
+const formatTypingUsers = (usernames: string[]) => {
+  if (usernames.length === 1) return `${usernames[0]} is typing…`;
+  if (usernames.length === 2) return `${usernames[0]} and ${usernames[1]} are typing…`;
+  return 'Several people are typing…';
+};
+
+interface PendingAttachment {
+  id: string;
+  file: File;
+  progress: number;
+  attachment?: Attachment;
+  error?: string;
+}
+
+// Decrypts an attachment into an object URL for as long as it is mounted.
+// Snapshots hand over a new attachment object every time, but a path always
+// holds the same file, so only a new path is downloaded again.
+const useAttachmentUrl = (attachment: Attachment, groupId: string, enabled: boolean) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { auth, attachments } = useChatBackend();
+  const uid = auth.currentUser()?.uid;
+  const attachmentRef = useRef(attachment);
+  const { path } = attachment;
+
+  useEffect(() => {
+    attachmentRef.current = attachment;
+  });
+
+  useEffect(() => {
+    setUrl(null);
+    setFailed(false);
+    if (!enabled || !uid) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    attachments.download(attachmentRef.current, groupId, uid)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.error('Error loading attachment:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [path, groupId, enabled, uid, attachments]);
+
+  return { url, failed };
+};
+
+const ImageAttachment: React.FC<{
+  attachment: Attachment;
+  groupId: string;
+  onOpen: (url: string, name: string) => void;
+}> = ({ attachment, groupId, onOpen }) => {
+  const { url, failed } = useAttachmentUrl(attachment, groupId, true);
+
+  if (failed) {
+    return (
+      <div className="w-48 h-32 rounded-lg bg-gray-800/50 flex items-center justify-center text-xs text-gray-400">
+        Unable to load image
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="w-48 h-32 rounded-lg bg-gray-800/50 flex items-center justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <button onClick={() => onOpen(url, attachment.name)} title={attachment.name}>
+      <img
+        src={url}
+        alt={attachment.name}
+        className="max-w-[12rem] max-h-48 rounded-lg object-cover"
+      />
+    </button>
+  );
+};
+
+const FileAttachment: React.FC<{ attachment: Attachment; groupId: string }> = ({
+  attachment,
+  groupId
+}) => {
+  const [downloading, setDownloading] = useState(false);
+  const { auth, attachments } = useChatBackend();
+  const uid = auth.currentUser()?.uid;
+
+  const handleDownload = async () => {
+    if (!uid) return;
+
+    setDownloading(true);
+    try {
+      const blob = await attachments.download(attachment, groupId, uid);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleDownload}
+      disabled={downloading}
+      className="w-64 flex items-center gap-3 rounded-lg bg-gray-800/50 hover:bg-gray-800 p-3 transition-colors text-left"
+    >
+      <FileText className="w-8 h-8 text-purple-400 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="truncate text-sm">{attachment.name}</div>
+        <div className="text-xs text-gray-400">{formatFileSize(attachment.size)}</div>
+      </div>
+      {downloading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      ) : (
+        <Download className="w-4 h-4 text-gray-400" />
+      )}
+    </button>
+  );
+};
+
+const MessageAttachments: React.FC<{
+  message: Message;
+  onOpenImage: (url: string, name: string) => void;
+}> = ({ message, onOpenImage }) => {
+  if (!message.attachments?.length) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {message.attachments.map((attachment) =>
+        isImageAttachment(attachment) ? (
+          <ImageAttachment
+            key={attachment.path}
+            attachment={attachment}
+            groupId={message.groupId}
+            onOpen={onOpenImage}
+          />
+        ) : (
+          <FileAttachment
+            key={attachment.path}
+            attachment={attachment}
+            groupId={message.groupId}
+          />
+        )
+      )}
+    </div>
+  );
+};
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '😮', '😢'];
+
+// Aggregated reaction chips with a picker for adding new ones
+const MessageReactions: React.FC<{ message: Message }> = ({ message }) => {
+  const [showPicker, setShowPicker] = useState(false);
+  const { auth, messages } = useChatBackend();
+  const uid = auth.currentUser()?.uid;
+  const reactions = Object.entries(message.reactions ?? {})
+    .filter(([, uids]) => uids.length > 0);
+
+  // Add or remove the current user's reaction
+  const toggleReaction = async (emoji: string) => {
+    if (!uid) return;
+
+    try {
+      await messages.toggleReaction(message, emoji, uid);
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1 relative">
+      {reactions.map(([emoji, uids]) => (
+        <button
+          key={emoji}
+          onClick={() => toggleReaction(emoji)}
+          className={`px-2 py-0.5 rounded-full text-xs flex items-center gap-1 border transition-colors
+            ${uid && uids.includes(uid)
+              ? 'bg-purple-500/30 border-purple-500/50'
+              : 'bg-gray-800/50 border-gray-600/50 hover:border-gray-500'}`}
+        >
+          <span>{emoji}</span>
+          <span>{uids.length}</span>
+        </button>
+      ))}
+
+      <button
+        onClick={() => setShowPicker(!showPicker)}
+        className={`p-1 hover:bg-gray-700 rounded transition-colors text-gray-400
+          ${reactions.length > 0 || showPicker ? '' : 'hidden group-hover:block'}`}
+        title="Add reaction"
+      >
+        <SmilePlus className="w-3 h-3" />
+      </button>
+
+      {showPicker && (
+        <div className="absolute bottom-full mb-1 bg-gray-800 border border-gray-700 rounded-lg p-1 flex gap-1 z-10">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                toggleReaction(emoji);
+                setShowPicker(false);
+              }}
+              className="p-1 hover:bg-gray-700 rounded transition-colors"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const REPLIES_PER_PAGE = 25;
+
+interface ThreadPanelProps {
+  parent: Message;
+  group: Group;
+  username: string;
+  memberNames: Record<string, string>;
+  keysLocked: boolean;
+  onClose: () => void;
+}
+
+// Side panel showing the replies to a single message
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  parent,
+  group,
+  username,
+  memberNames,
+  keysLocked,
+  onClose
+}) => {
+  const [replies, setReplies] = useState<Message[]>([]);
+  const [hasMoreReplies, setHasMoreReplies] = useState(false);
+  const [loadingReplies, setLoadingReplies] = useState(false);
+  const [newReply, setNewReply] = useState('');
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const { auth, messages } = useChatBackend();
+  const uid = auth.currentUser()?.uid;
+
+  // Listen to the newest page of replies
+  useEffect(() => {
+    setReplies([]);
+
+    let isFirstUpdate = true;
+    const unsubscribe = messages.subscribeToReplies(parent.groupId, parent.id, REPLIES_PER_PAGE, (update) => {
+      setReplies(prev => applyMessageChanges(prev, update));
+
+      if (isFirstUpdate) {
+        isFirstUpdate = false;
+        setHasMoreReplies(update.messages.length === REPLIES_PER_PAGE);
+      }
+
+      if (update.hasNewMessages) {
+        setTimeout(() => repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
+      }
+    }, (error) => {
+      console.error('Error listening to replies:', error);
+    });
+
+    return () => unsubscribe();
+  }, [parent.groupId, parent.id, messages]);
+
+  const loadOlderReplies = async () => {
+    const oldestReply = replies[0];
+    if (!oldestReply || loadingReplies) return;
+
+    setLoadingReplies(true);
+    try {
+      const page = await messages.loadOlderReplies(parent.groupId, parent.id, oldestReply, REPLIES_PER_PAGE);
+      setReplies(prev => mergeMessages(prev, page.messages));
+      setHasMoreReplies(page.hasMore);
+    } catch (error) {
+      console.error('Error loading replies:', error);
+    } finally {
+      setLoadingReplies(false);
+    }
+  };
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newReply.trim() || !uid) return;
+
+    try {
+      const mentions = await resolveMentions(
+        newReply,
+        group.members,
+        memberNames,
+        auth.findUidByUsername
+      );
+
+      // Also bumps the parent's thread summary
+      await messages.send({
+        id: messages.newId(),
+        ...(await messages.sealBody(group, uid, newReply.trim())),
+        mentions,
+        senderId: uid,
+        senderName: username,
+        groupId: group.id,
+        parentId: parent.id,
+        createdAt: new Date().toISOString()
+      });
+
+      setNewReply('');
+    } catch (error) {
+      console.error('Error sending reply:', error);
+    }
+  };
+
+  return (
+    <div className="w-96 border-l border-gray-700/50 flex flex-col bg-gray-900/50">
+      <header className="h-16 border-b border-gray-700/50 flex items-center justify-between px-4">
+        <h2 className="font-semibold">Thread</h2>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="rounded-lg p-3 bg-gray-700/50">
+          <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
+            <span className="font-medium">{parent.senderName}</span>
+            <span className="opacity-60">•</span>
+            <span>{formatMessageTime(parent.timestamp)}</span>
+          </div>
+          {parent.deletedAt ? (
+            <div className="italic text-gray-400">message deleted</div>
+          ) : (
+            <MessageContent key={keysLocked ? 'locked' : 'unlocked'} message={parent} />
+          )}
+        </div>
+
+        <div className="text-xs text-gray-400 uppercase">
+          {parent.replyCount ?? 0} {parent.replyCount === 1 ? 'reply' : 'replies'}
+        </div>
+
+        {hasMoreReplies && (
+          <button
+            onClick={loadOlderReplies}
+            disabled={loadingReplies}
+            className="w-full text-sm text-purple-400 hover:text-purple-300 transition-colors"
+          >
+            {loadingReplies ? 'Loading...' : 'Load older replies'}
+          </button>
+        )}
+
+        {replies.map((reply) => (
+          <div key={reply.id} className="group rounded-lg p-3 bg-gray-800/50">
+            <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
+              <span className="font-medium">{reply.senderName}</span>
+              <span className="opacity-60">•</span>
+              <span>{formatMessageTime(reply.timestamp)}</span>
+            </div>
+            {reply.deletedAt ? (
+              <div className="italic text-gray-400">message deleted</div>
+            ) : (
+              <>
+                <MessageContent key={keysLocked ? 'locked' : 'unlocked'} message={reply} />
+                <MessageReactions message={reply} />
+              </>
+            )}
+          </div>
+        ))}
+        <div ref={repliesEndRef} />
+      </div>
+
+      <form onSubmit={handleSendReply} className="p-4 border-t border-gray-700">
+        <div className="flex items-end space-x-2">
+          <MentionTextarea
+            value={newReply}
+            onValueChange={setNewReply}
+            memberNames={memberNames}
+            onKeyDown={submitOnEnter}
+            rows={composerRows(newReply)}
+            className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 resize-none
+              focus:outline-none focus:border-purple-500"
+            placeholder="Reply in thread"
+          />
+          <button
+            type="submit"
+            disabled={!newReply.trim()}
+            className="px-3 py-2 bg-purple-500 hover:bg-purple-600 rounded-lg
+              transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send className="w-5 h-5" />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
 const ChatsPage: React.FC = () => {
-  const [messageListener, setMessageListener] = useState<(() => void) | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [userData, setUserData] = useState<UserData | null>(null);
   const [loading, setLoading] = useState(true);
-  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+  const [groupsLoaded, setGroupsLoaded] = useState(false);
+  // Access to a linked group that isn't in the user's list
+  const [linkedGroupAccess, setLinkedGroupAccess] = useState<GroupAccess | null>(null);
+  const [missingMessageId, setMissingMessageId] = useState<string | null>(null);
   const [showCreateGroup, setShowCreateGroup] = useState(false);
   const [newGroupName, setNewGroupName] = useState('');
   const [newGroupDescription, setNewGroupDescription] = useState('');
@@ -89,36 +884,159 @@ const ChatsPage: React.FC = () => {
   const [showJoinModal, setShowJoinModal] = useState(false);
   const [inviteCode, setInviteCode] = useState('');
   const [joining, setJoining] = useState(false);
-  const [lastMessageRef, setLastMessageRef] = useState<any>(null);
-  const [hasMoreMessages, setHasMoreMessages] = useState(true);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [keysLocked, setKeysLocked] = useState(false);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
+  const [threadParentId, setThreadParentId] = useState<string | null>(null);
+  const [newMessagesSince, setNewMessagesSince] = useState<number | null>(null);
+  const [showDirectMessageModal, setShowDirectMessageModal] = useState(false);
+  const [directMessageUsername, setDirectMessageUsername] = useState('');
+  const [startingDirectMessage, setStartingDirectMessage] = useState(false);
+  const [showMembersPanel, setShowMembersPanel] = useState(false);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
+  const [updatingMember, setUpdatingMember] = useState<string | null>(null);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteExpiryIndex, setInviteExpiryIndex] = useState(1);
+  const [inviteMaxUsesIndex, setInviteMaxUsesIndex] = useState(0);
+  const [creatingInvite, setCreatingInvite] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [lightbox, setLightbox] = useState<{ url: string; name: string } | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchGroupId, setSearchGroupId] = useState('');
+  const [searchSenderId, setSearchSenderId] = useState('');
+  const [searchFrom, setSearchFrom] = useState('');
+  const [searchTo, setSearchTo] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [showMentions, setShowMentions] = useState(false);
+  const [showNotificationMenu, setShowNotificationMenu] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState(
+    () => (notificationsSupported() ? Notification.permission : 'denied')
+  );
   
   const messagesContainerRef = useRef<HTMLDivElement>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const bottomSentinelRef = useRef<HTMLDivElement>(null);
+  const isAtBottomRef = useRef(true);
+  const [hasUnseenMessages, setHasUnseenMessages] = useState(false);
   const navigate = useNavigate();
-  
-  const MESSAGES_PER_PAGE = 25;
-
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  const location = useLocation();
+  // The open group and linked message come from the URL, so they survive a
+  // reload and move with back and forward
+  const { groupId: routeGroupId, messageId: routeMessageId } = useParams();
+  const selectedGroup = useMemo(
+    () => groups.find(group => group.id === routeGroupId) ?? null,
+    [groups, routeGroupId]
+  );
+  const backend = useChatBackend();
+  const uid = backend.auth.currentUser()?.uid;
+  const { lastReadAt, unreadCounts, receipts, markRead } = useReadState(
+    uid,
+    groups,
+    selectedGroup?.id
+  );
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    selectedGroup?.id,
+    uid,
+    userData?.username
+  );
+  const {
+    mentions,
+    unreadMentionCount,
+    markMentionRead,
+    markAllMentionsRead
+  } = useMentions(uid);
+  const { outbox, send: sendFromOutbox, retry: retryOutboxEntry, discard: discardOutboxEntry } =
+    useOutbox(uid);
+  const notificationSettings = useNotificationSettings(uid);
+  useMessageNotifications(
+    uid,
+    groups,
+    selectedGroup?.id,
+    notificationSettings,
+    (groupId) => {
+      const group = groups.find(group => group.id === groupId);
+      if (group && group.id !== selectedGroup?.id) handleGroupSelect(group);
+    }
+  );
+  // Muted groups don't count, mentions-only groups count unread mentions
+  useTitleBadge(groups.reduce((total, group) => {
+    const level = getGroupLevel(notificationSettings, group.id);
+    if (level === 'muted') return total;
+    if (level === 'mentions') {
+      return total + mentions.filter(mention =>
+        mention.groupId === group.id && !mention.readAt).length;
+    }
+    return total + (unreadCounts[group.id] ?? 0);
+  }, 0));
+  const selectedGroupMemberNames = useMemo(() => Object.fromEntries(
+    (selectedGroup?.members ?? [])
+      .filter(uid => uid in memberNames)
+      .map(uid => [uid, memberNames[uid]])
+  ), [selectedGroup, memberNames]);
+  // Date inputs give local calendar days, the range includes the whole "to" day
+  const searchFilters = useMemo<SearchFilters>(() => ({
+    groupId: searchGroupId || undefined,
+    senderId: searchSenderId || undefined,
+    from: searchFrom ? new Date(`${searchFrom}T00:00`).getTime() : undefined,
+    to: searchTo ? new Date(`${searchTo}T23:59:59.999`).getTime() : undefined
+  }), [searchGroupId, searchSenderId, searchFrom, searchTo]);
+  const {
+    results: searchResults,
+    senders: searchSenders,
+    refresh: refreshSearchIndex,
+    indexing: indexingSearch,
+    indexedCount
+  } = useMessageSearch(uid, groups, searchQuery, searchFilters);
+  const {
+    messages,
+    hasMore: hasMoreMessages,
+    hasNewer: hasNewerMessages,
+    loadingOlder: isLoadingMore,
+    loadingNewer: isLoadingNewer,
+    loadOlder: loadMoreMessages,
+    loadNewer: loadNewerMessages,
+    loadAround,
+    showLatest
+  } = useGroupMessages(selectedGroup?.id, MESSAGES_PER_PAGE);
+  // Replies live in their thread, not the main stream
+  const topLevelMessages = useMemo(
+    () => messages.filter(message => !message.parentId),
+    [messages]
+  );
+  const topLevelMessageIds = useMemo(
+    () => topLevelMessages.map(message => message.id),
+    [topLevelMessages]
+  );
+  const messageList = useVirtualList(messagesContainerRef, topLevelMessageIds, {
+    resetKey: selectedGroup?.id,
+    followBottom: !hasNewerMessages
+  });
+  const { scrollToBottom, scrollToKey: scrollToMessage } = messageList;
 
   // Load initial user data and set up groups listener
   useEffect(() => {
     const fetchUserData = async () => {
       try {
-        const user = auth.currentUser;
-        if (!user) {
+        if (!uid) {
           navigate('/auth');
           return;
         }
 
-        const userRef = doc(db, 'users', user.uid);
-        const userSnap = await getDoc(userRef);
-        
-        if (userSnap.exists()) {
-          setUserData(userSnap.data() as UserData);
+        const profile = await backend.auth.getProfile(uid);
+        // Accounts from a provider sign-in that never picked a username
+        if (!profile) {
+          navigate('/choose-username', { replace: true });
+          return;
         }
+
+        setUserData(profile);
+        setKeysLocked(!(await backend.auth.hasUnlockedKeys(uid)));
         
         setLoading(false);
       } catch (error) {
@@ -130,258 +1048,459 @@ const ChatsPage: React.FC = () => {
     fetchUserData();
 
     // Set up groups listener
-    if (!auth.currentUser) return;
+    if (!uid) return;
 
-    const groupsQuery = query(
-      collection(db, 'groups'),
-      where('members', 'array-contains', auth.currentUser.uid)
-    );
-
-    const unsubscribe = onSnapshot(groupsQuery, (snapshot) => {
-      const groupsList = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-      })) as Group[];
+    const unsubscribe = backend.groups.subscribe(uid, ({ groups: groupsList }) => {
       setGroups(groupsList);
+      setGroupsLoaded(true);
+    }, (error) => {
+      console.error('Error listening to groups:', error);
     });
 
     return () => unsubscribe();
-  }, [navigate]);
+  }, [navigate, uid, backend]);
+    
+  // Load older messages once the top of the list comes within a screen of
+  // the viewport. Recreated after each load, so it fires again if the
+  // sentinel is still in view.
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    const sentinel = topSentinelRef.current;
+    if (!container || !sentinel || !hasMoreMessages || isLoadingMore) return;
 
-  // Load messages function
-  const loadMessages = async (groupId: string, lastRef?: any) => {
-    try {
-      let messagesQuery = query(
-        collection(db, 'messages'),
-        where('groupId', '==', groupId),
-        orderBy('timestamp', 'desc'), // Latest messages first
-        limit(MESSAGES_PER_PAGE)
-      );
-  
-      if (lastRef) {
-        messagesQuery = query(
-          collection(db, 'messages'),
-          where('groupId', '==', groupId),
-          orderBy('timestamp', 'desc'),
-          startAfter(lastRef),
-          limit(MESSAGES_PER_PAGE)
-        );
-      }
-  
-      const snapshot = await getDocs(messagesQuery);
-      const newMessages = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Message[];
-  
-      setHasMoreMessages(snapshot.docs.length === MESSAGES_PER_PAGE);
-      
-      if (lastRef) {
-        // For loading more messages, add them to the end (they're older)
-        setMessages(prev => [...prev, ...newMessages]);
-      } else {
-        // For initial load, reverse to show newest at bottom
-        setMessages(newMessages);
-      }
-  
-      if (snapshot.docs.length > 0) {
-        setLastMessageRef(snapshot.docs[snapshot.docs.length - 1]);
-      }
-    } catch (error) {
-      console.error('Error loading messages:', error);
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          loadMoreMessages();
+        }
+      },
+      { root: container, rootMargin: '100% 0px 0px 0px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMoreMessages, isLoadingMore, loadMoreMessages]);
+
+  // Likewise below, while a linked message's surroundings stop short of the
+  // newest messages
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    const sentinel = bottomSentinelRef.current;
+    if (!container || !sentinel || !hasNewerMessages || isLoadingNewer) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          loadNewerMessages();
+        }
+      },
+      { root: container, rootMargin: '0px 0px 100% 0px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasNewerMessages, isLoadingNewer, loadNewerMessages]);
+
+  const handleGroupSelect = (group: Group) => {
+    if (group.id !== routeGroupId || routeMessageId) {
+      navigate(groupPath(group.id));
     }
   };
-    
+
+  // Reset the conversation when the URL moves to another group
   useEffect(() => {
-      const container = messagesContainerRef.current;
-      if (!container) return;
-  
-      const observer = new IntersectionObserver(
-        ([entry]) => {
-          if (entry.isIntersecting && hasMoreMessages && !isLoadingMore) {
-            loadMoreMessages();
-          }
-        },
-        { threshold: 0 } // Trigger when the top of the container is visible
-      );
-  
-      observer.observe(container);
-  
-      return () => observer.disconnect(); // Cleanup on unmount
-    }, [hasMoreMessages, isLoadingMore]);
-  
+    setNewMessage('');
+    setThreadParentId(null);
+    setPendingAttachments([]);
+    setShowNotificationMenu(false);
+    setMissingMessageId(null);
+    setHasUnseenMessages(false);
+    isAtBottomRef.current = true;
+  }, [routeGroupId]);
 
-  const loadMoreMessages = async () => {
-    if (!selectedGroup || !hasMoreMessages || isLoadingMore) return;
-    
-    setIsLoadingMore(true);
-    await loadMessages(selectedGroup.id, lastMessageRef);
-    setIsLoadingMore(false);
+  // The group's own link shows its newest messages, even after a message
+  // link left it showing older ones
+  useEffect(() => {
+    if (routeGroupId && !routeMessageId) showLatest(routeGroupId);
+  }, [routeGroupId, routeMessageId, showLatest]);
+
+  // Remember where the unread messages start, then mark them read. Waits for
+  // the group's read state, which a reload may not have loaded yet.
+  const openedGroupIdRef = useRef<string>();
+  useEffect(() => {
+    if (!selectedGroup || !userData || !(selectedGroup.id in lastReadAt)) return;
+    if (openedGroupIdRef.current === selectedGroup.id) return;
+
+    openedGroupIdRef.current = selectedGroup.id;
+    setNewMessagesSince(lastReadAt[selectedGroup.id] ?? null);
+    markRead(selectedGroup.id, userData.username);
+  }, [selectedGroup, userData, lastReadAt, markRead]);
+
+  // Find out why a linked group isn't in the list: not joined, or gone
+  const isRouteGroupListed = !!selectedGroup;
+  useEffect(() => {
+    setLinkedGroupAccess(null);
+    if (!routeGroupId || !uid || !groupsLoaded || isRouteGroupListed) return;
+
+    let cancelled = false;
+    backend.groups.checkAccess(routeGroupId, uid)
+      .then(access => {
+        if (!cancelled) setLinkedGroupAccess(access);
+      })
+      .catch(error => {
+        console.error('Error checking group access:', error);
+        if (!cancelled) setLinkedGroupAccess('not-found');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeGroupId, uid, groupsLoaded, isRouteGroupListed, backend]);
+
+  // Follow new messages while at the bottom, or after sending one. Someone
+  // reading further up gets a button to jump down instead.
+  const newestMessage = topLevelMessages[topLevelMessages.length - 1];
+  const newestMessageId = newestMessage?.id;
+  const newestSenderId = newestMessage?.senderId;
+  useEffect(() => {
+    if (!newestMessageId || hasNewerMessages) return;
+
+    if (isAtBottomRef.current || newestSenderId === uid) {
+      isAtBottomRef.current = true;
+      setHasUnseenMessages(false);
+      scrollToBottom();
+    } else {
+      setHasUnseenMessages(true);
+    }
+  }, [newestMessageId, newestSenderId, uid, hasNewerMessages, scrollToBottom]);
+
+  const handleJumpToBottom = () => {
+    isAtBottomRef.current = true;
+    setHasUnseenMessages(false);
+    // Following the newest messages scrolls down once they're shown
+    if (hasNewerMessages && selectedGroup) {
+      navigate(groupPath(selectedGroup.id));
+      return;
+    }
+    scrollToBottom();
   };
 
-  // Update group selection handler
-  const handleGroupSelect = async (group: Group) => {
-    setSelectedGroup(group);
-    setMessages([]); // Clear existing messages
-    setNewMessage('');
-    setLastMessageRef(null);
-    setHasMoreMessages(true);
-    
-    if (messageListener) {
-      messageListener();
-      setMessageListener(null);
+  // Pending writes normally show up in the list straight from the local
+  // cache; failed ones were rolled back and are only in the outbox. They
+  // belong after the newest messages, so not while older ones are shown.
+  const unsentMessages = hasNewerMessages ? [] : outbox.filter(entry =>
+    entry.groupId === selectedGroup?.id
+    && !messages.some(message => message.id === entry.id));
+
+  // A message in the list is on its way whatever its entry says: the local
+  // cache replays its own pending writes after a reload, even when the
+  // outbox's replay failed offline. A write the server rejects is rolled
+  // back and puts its entry back as failed.
+  useEffect(() => {
+    outbox
+      .filter(entry => messages.some(message => message.id === entry.id))
+      .forEach(discardOutboxEntry);
+  }, [outbox, messages, discardOutboxEntry]);
+  // Read receipts go under the group's newest message
+  const latestMessage = hasNewerMessages
+    ? undefined
+    : [...topLevelMessages].reverse().find(message => message.timestamp);
+  const latestMessageTime = latestMessage?.timestamp?.getTime() ?? 0;
+  const firstUnreadId = newMessagesSince === null ? undefined : topLevelMessages.find(message =>
+    message.senderId !== uid
+    && message.timestamp
+    && message.timestamp.getTime() > newMessagesSince
+  )?.id;
+
+  // Bring a search result into view once it has been rendered
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    scrollToMessage(highlightedMessageId);
+    // Again once the items on the way have been measured
+    const scrollTimer = setTimeout(() => scrollToMessage(highlightedMessageId), 150);
+    const clearTimer = setTimeout(() => setHighlightedMessageId(null), 3000);
+
+    return () => {
+      clearTimeout(scrollTimer);
+      clearTimeout(clearTimer);
+    };
+  }, [highlightedMessageId, scrollToMessage]);
+
+  // Mark the group read when new messages arrive while scrolled to the bottom
+  useEffect(() => {
+    if (!selectedGroup || !userData || !isAtBottomRef.current) return;
+    if (openedGroupIdRef.current !== selectedGroup.id) return;
+    if (latestMessageTime > (lastReadAt[selectedGroup.id] ?? 0)) {
+      markRead(selectedGroup.id, userData.username);
     }
+  }, [selectedGroup, userData, latestMessageTime, lastReadAt, markRead]);
 
-    try {
-      // Load initial messages
-      const initialQuery = query(
-        collection(db, 'messages'),
-        where('groupId', '==', group.id),
-        orderBy('timestamp', 'desc'),
-        limit(MESSAGES_PER_PAGE)
-      );
-  
-      const snapshot = await getDocs(initialQuery);
-      const initialMessages = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Message[];
-  
-      setHasMoreMessages(snapshot.docs.length === MESSAGES_PER_PAGE);
-      setMessages(initialMessages);
-  
-      if (snapshot.docs.length > 0) {
-        setLastMessageRef(snapshot.docs[snapshot.docs.length - 1]);
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    messageList.handleScroll();
+
+    const wasAtBottom = isAtBottomRef.current;
+    isAtBottomRef.current = !hasNewerMessages
+      && container.scrollHeight - container.scrollTop - container.clientHeight < 40;
+    if (isAtBottomRef.current) {
+      setHasUnseenMessages(false);
+    }
+
+    if (!wasAtBottom && isAtBottomRef.current && selectedGroup && userData
+      && latestMessageTime > (lastReadAt[selectedGroup.id] ?? 0)) {
+      markRead(selectedGroup.id, userData.username);
+    }
+  };
+
+  const handleOpenSearch = () => {
+    setShowSearch(true);
+    refreshSearchIndex();
+  };
+
+  // Search results and mentions open through the message's link
+  const handleJumpToMessage = (result: Pick<IndexedMessage, 'id' | 'groupId'>) => {
+    setShowSearch(false);
+    navigate(messagePath(result.groupId, result.id));
+  };
+
+  // Open a message link once its group is open, loading a page on either side
+  // of the message. Unless that reaches the newest messages, the list shows
+  // just those until scrolling down pages in the rest. Runs once per
+  // navigation, so following the same link again scrolls back to it.
+  const openedLinkKeyRef = useRef<string>();
+  useEffect(() => {
+    if (!routeMessageId || !selectedGroup || openedLinkKeyRef.current === location.key) return;
+    openedLinkKeyRef.current = location.key;
+
+    const groupId = selectedGroup.id;
+    setMissingMessageId(null);
+    (async () => {
+      try {
+        const message = await backend.messages.get(routeMessageId);
+        // Replies are shown in context of their thread
+        const targetId = message?.parentId ?? routeMessageId;
+        if (!message || message.groupId !== groupId || !(await loadAround(groupId, targetId))) {
+          setMissingMessageId(routeMessageId);
+          return;
+        }
+
+        isAtBottomRef.current = false;
+        if (message.parentId) {
+          setThreadParentId(message.parentId);
+        }
+        setHighlightedMessageId(targetId);
+      } catch (error) {
+        console.error('Error opening message link:', error);
+        setMissingMessageId(routeMessageId);
       }
-  
-      // Set up real-time listener for new messages
-      const realtimeQuery = query(
-        collection(db, 'messages'),
-        where('groupId', '==', group.id),
-        orderBy('timestamp', 'desc'),
-        limit(1)
+    })();
+  }, [routeMessageId, selectedGroup, location.key, backend, loadAround]);
+
+  const handleCopyMessageLink = async (message: Message) => {
+    try {
+      await navigator.clipboard.writeText(
+        window.location.origin + messagePath(message.groupId, message.id)
       );
-  
-      const unsubscribe = onSnapshot(realtimeQuery, (snapshot) => {
-        snapshot.docChanges().forEach((change) => {
-          if (change.type === 'added') {
-            const newMessage = {
-              id: change.doc.id,
-              ...change.doc.data()
-            } as Message;
-            
-            setMessages(prev => {
-              if (!prev.find(m => m.id === newMessage.id)) {
-                const updatedMessages = [newMessage, ...prev];
-                return updatedMessages;
-              }
-              return prev;
-            });
-          }
-        });
-      });
-  
-      return () => unsubscribe();
     } catch (error) {
-      console.error('Error loading group messages:', error);
+      console.error('Error copying message link:', error);
+      alert('Could not copy the link');
     }
   };
 
-  // Message listener
-  useEffect(() => {
-    if (!selectedGroup) return;
+  const handleOpenMention = (mention: Mention) => {
+    setShowMentions(false);
+    if (!mention.readAt) {
+      markMentionRead(mention.id);
+    }
+    handleJumpToMessage({ id: mention.messageId, groupId: mention.groupId });
+  };
 
-    // Query for messages in the current group
-    const messagesRef = collection(db, 'messages');
-    const messagesQuery = query(
-      messagesRef,
-      where('groupId', '==', selectedGroup.id),
-      orderBy('timestamp', 'desc'),
-      limit(25)
-    );
+  // Validate and start uploading files from the picker, drag-and-drop or paste
+  const addAttachments = async (files: File[]) => {
+    if (!selectedGroup || !uid || files.length === 0) return;
 
-    // Set up real-time listener
-    const unsubscribe = onSnapshot(messagesQuery, (snapshot) => {
-      const newMessages: Message[] = [];
-      
-      snapshot.forEach((doc) => {
-        newMessages.push({
-          id: doc.id,
-          ...doc.data() as Omit<Message, 'id'>
-        });
-      });
-
-      // Sort messages by timestamp (oldest to newest)
-      const sortedMessages = newMessages.sort((a, b) => {
-        const timeA = a.timestamp?.seconds || 0;
-        const timeB = b.timestamp?.seconds || 0;
-        return timeA - timeB;
-      });
+    if (pendingAttachments.length + files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      alert(`You can attach at most ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+      return;
+    }
 
-      setMessages(sortedMessages);
-      
-      // Scroll to bottom if new message arrives
-      if (sortedMessages.length > messages.length) {
-        setTimeout(scrollToBottom, 100);
+    const accepted = files.filter((file) => {
+      try {
+        validateAttachment(file);
+        return true;
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Invalid file');
+        return false;
       }
-    }, (error) => {
-      console.error("Error listening to messages:", error);
     });
 
-    // Cleanup listener on unmount or group change
-    return () => unsubscribe();
-  }, [selectedGroup?.id]); // Only re-run when group ID changes
+    const group = selectedGroup;
+    const added = accepted.map(file => ({ id: crypto.randomUUID(), file, progress: 0 }));
+    setPendingAttachments(prev => [...prev, ...added]);
+
+    const updatePending = (id: string, changes: Partial<PendingAttachment>) =>
+      setPendingAttachments(prev =>
+        prev.map(pending => pending.id === id ? { ...pending, ...changes } : pending)
+      );
+
+    try {
+      const keyVersion = await backend.groups.currentKeyVersion(group, uid);
+
+      await Promise.all(added.map(async ({ id, file }) => {
+        try {
+          const attachment = await backend.attachments.upload(file, group.id, keyVersion, uid,
+            (progress) => updatePending(id, { progress }));
+          updatePending(id, { attachment, progress: 1 });
+        } catch (error) {
+          console.error('Error uploading attachment:', error);
+          updatePending(id, { error: 'Upload failed' });
+        }
+      }));
+    } catch (error) {
+      console.error('Error preparing attachments:', error);
+      added.forEach(({ id }) => updatePending(id, { error: 'Upload failed' }));
+    }
+  };
+
+  const removePendingAttachment = (pending: PendingAttachment) => {
+    setPendingAttachments(prev => prev.filter(item => item.id !== pending.id));
+    if (pending.attachment) {
+      backend.attachments.remove(pending.attachment).catch((error) =>
+        console.error('Error deleting attachment:', error)
+      );
+    }
+  };
+
+  const uploadedAttachments = pendingAttachments
+    .map(pending => pending.attachment)
+    .filter((attachment): attachment is Attachment => !!attachment);
+  const isUploading = pendingAttachments.some(pending => !pending.attachment && !pending.error);
+  const canSend = (!!newMessage.trim() || uploadedAttachments.length > 0) && !isUploading;
 
   // Handle sending messages
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !selectedGroup || !userData || !auth.currentUser) return;
+    if (!canSend || !selectedGroup || !userData || !uid) return;
 
+    let entry: OutboxEntry;
     try {
-      const messageData = {
-        content: newMessage.trim(),
-        senderId: auth.currentUser.uid,
+      const mentions = await resolveMentions(
+        newMessage,
+        selectedGroup.members,
+        selectedGroupMemberNames,
+        backend.auth.findUidByUsername
+      );
+
+      entry = {
+        id: backend.messages.newId(),
+        senderId: uid,
         senderName: userData.username,
         groupId: selectedGroup.id,
-        timestamp: serverTimestamp(),
-        createdAt: new Date().toISOString() // Fallback timestamp
+        ...(newMessage.trim() && await backend.messages.sealBody(selectedGroup, uid, newMessage.trim())),
+        ...(uploadedAttachments.length > 0 && { attachments: uploadedAttachments }),
+        ...(mentions.length > 0 && { mentions }),
+        createdAt: new Date().toISOString(),
+        status: 'sending'
       };
+    } catch (error) {
+      // Nothing was queued, keep the draft so it can be sent again
+      console.error('Error preparing message:', error);
+      alert('Unable to encrypt this message. Please try again.');
+      return;
+    }
+
+    // The message shows up as "sending" right away and stays in the outbox
+    // until the server acknowledges it
+    setNewMessage('');
+    setPendingAttachments([]);
+    stopTyping();
+    // The sent message goes after the newest ones
+    if (hasNewerMessages) {
+      navigate(groupPath(selectedGroup.id));
+    }
+    await sendFromOutbox(entry);
+  };
+
+  const startEditing = async (message: Message) => {
+    if (!uid) return;
 
-      await addDoc(collection(db, 'messages'), messageData);
-      setNewMessage('');
+    try {
+      const currentText = await backend.messages.openBody(message, uid);
+      setEditingMessageId(message.id);
+      setEditText(currentText);
     } catch (error) {
-      console.error('Error sending message:', error);
+      console.error('Error starting edit:', error);
+    }
+  };
+
+  // Handle editing messages, keeping the previous version in the history
+  const handleEditMessage = async (message: Message) => {
+    if (!editText.trim() || !selectedGroup || !userData || !uid) return;
+
+    try {
+      const mentions = await resolveMentions(
+        editText,
+        selectedGroup.members,
+        selectedGroupMemberNames,
+        backend.auth.findUidByUsername
+      );
+
+      await backend.messages.edit(
+        message,
+        await backend.messages.sealBody(selectedGroup, uid, editText.trim()),
+        mentions,
+        { uid, username: userData.username }
+      );
+
+      setEditingMessageId(null);
+      setEditText('');
+    } catch (error) {
+      console.error('Error editing message:', error);
+    }
+  };
+
+  // Soft delete: the message stays in place as a placeholder but its
+  // content and edit history are removed
+  const handleDeleteMessage = async (message: Message) => {
+    if (!window.confirm('Delete this message?')) return;
+
+    try {
+      await backend.messages.remove(message);
+
+      // Best effort, the message no longer references the files
+      message.attachments?.forEach(attachment => {
+        backend.attachments.remove(attachment).catch((error) =>
+          console.error('Error deleting attachment:', error)
+        );
+      });
+    } catch (error) {
+      console.error('Error deleting message:', error);
     }
   };
 
   // Handle creating groups
   const handleCreateGroup = async () => {
-    if (!newGroupName.trim() || !auth.currentUser) return;
+    if (!newGroupName.trim() || !uid) return;
     
     setCreatingGroup(true);
     try {
-      const newGroupData = {
-        name: newGroupName.trim(),
-        description: newGroupDescription.trim(),
-        createdBy: auth.currentUser.uid,
-        createdAt: serverTimestamp(),
-        members: [auth.currentUser.uid]
-      };
-
-      const groupRef = await addDoc(collection(db, 'groups'), newGroupData);
-
-      const newGroup: Group = {
-        id: groupRef.id,
-        ...newGroupData,
-        createdAt: new Date(),
-      };
+      const newGroup = await backend.groups.create(
+        uid,
+        newGroupName.trim(),
+        newGroupDescription.trim()
+      );
 
-      setGroups(prev => [newGroup, ...prev]);
+      // The groups listener may already have picked it up
+      setGroups(prev => prev.some(group => group.id === newGroup.id)
+        ? prev
+        : [newGroup, ...prev]);
       setShowCreateGroup(false);
       setNewGroupName('');
       setNewGroupDescription('');
-      setSelectedGroup(newGroup);
+      navigate(groupPath(newGroup.id));
     } catch (error) {
       console.error('Error creating group:', error);
     } finally {
@@ -389,52 +1508,136 @@ const ChatsPage: React.FC = () => {
     }
   };
 
-  // Handle generating invite codes
-  const generateInviteCode = async () => {
+  // Open the DM with a user, creating it the first time
+  const handleStartDirectMessage = async (username: string) => {
+    if (!username.trim() || !uid || !userData) return;
+
+    setStartingDirectMessage(true);
+    try {
+      const dm = await backend.groups.openDirectMessage(uid, userData.username, username);
+
+      // Shown straight away, the groups listener may not have it yet
+      setGroups(prev => prev.some(group => group.id === dm.id) ? prev : [dm, ...prev]);
+      setShowDirectMessageModal(false);
+      setDirectMessageUsername('');
+      handleGroupSelect(dm);
+    } catch (error) {
+      console.error('Error starting direct message:', error);
+      alert(error instanceof Error ? error.message : 'Error starting direct message');
+    } finally {
+      setStartingDirectMessage(false);
+    }
+  };
+
+  // Load usernames for the member list and mention suggestions
+  useEffect(() => {
     if (!selectedGroup) return;
-    
-    const code = Math.random().toString(36).substring(2, 10).toUpperCase();
+
+    selectedGroup.members
+      .filter(memberUid => !(memberUid in memberNames))
+      .forEach(async (memberUid) => {
+        try {
+          const profile = await backend.auth.getProfile(memberUid);
+          setMemberNames(prev => ({ ...prev, [memberUid]: profile?.username ?? 'unknown' }));
+        } catch (error) {
+          console.error('Error loading member:', error);
+        }
+      });
+  }, [selectedGroup, memberNames, backend]);
+
+  const handleMemberAction = async (
+    action: 'promote' | 'demote' | 'remove',
+    targetUid: string
+  ) => {
+    if (!selectedGroup || !uid) return;
+    if (action === 'remove' && !window.confirm(`Remove ${memberNames[targetUid] ?? 'this member'} from the group?`)) {
+      return;
+    }
+
+    setUpdatingMember(targetUid);
+    try {
+      if (action === 'promote') {
+        await backend.groups.promoteMember(selectedGroup.id, uid, targetUid);
+      } else if (action === 'demote') {
+        await backend.groups.demoteMember(selectedGroup.id, uid, targetUid);
+      } else {
+        await backend.groups.removeMember(selectedGroup.id, uid, targetUid);
+      }
+    } catch (error) {
+      console.error('Error updating member:', error);
+      alert(error instanceof Error ? error.message : 'Error updating member');
+    } finally {
+      setUpdatingMember(null);
+    }
+  };
+
+  const handleLeaveGroup = async () => {
+    if (!selectedGroup || !uid) return;
+    if (!window.confirm(`Leave ${selectedGroup.name}?`)) return;
+
+    try {
+      await backend.groups.leave(selectedGroup.id, uid);
+      setShowMembersPanel(false);
+      navigate('/chats', { replace: true });
+    } catch (error) {
+      console.error('Error leaving group:', error);
+      alert(error instanceof Error ? error.message : 'Error leaving group');
+    }
+  };
+
+  // Live list of the group's invites, with their use counts
+  const selectedGroupId = selectedGroup?.id;
+  useEffect(() => {
+    setInvites([]);
+    if (!showInviteModal || !selectedGroupId) return;
+
+    const unsubscribe = backend.invites.subscribe(selectedGroupId, setInvites, (error) => {
+      console.error('Error listening to invites:', error);
+    });
+
+    return () => unsubscribe();
+  }, [showInviteModal, selectedGroupId, backend]);
+
+  // Handle creating invite codes
+  const handleCreateInvite = async () => {
+    if (!selectedGroup || !uid) return;
+
+    setCreatingInvite(true);
     try {
-      await updateDoc(doc(db, 'groups', selectedGroup.id), {
-        inviteCode: code
+      await backend.invites.create(selectedGroup.id, uid, {
+        expiresInMs: INVITE_EXPIRY_OPTIONS[inviteExpiryIndex].value,
+        maxUses: INVITE_MAX_USES_OPTIONS[inviteMaxUsesIndex].value
       });
-      setInviteCode(code);
-      setShowInviteModal(true);
     } catch (error) {
-      console.error('Error generating invite code:', error);
+      console.error('Error creating invite:', error);
+      alert(error instanceof Error ? error.message : 'Error creating invite');
+    } finally {
+      setCreatingInvite(false);
+    }
+  };
+
+  const handleRevokeInvite = async (code: string) => {
+    if (!uid) return;
+
+    try {
+      await backend.invites.revoke(code, uid);
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      alert(error instanceof Error ? error.message : 'Error revoking invite');
     }
   };
 
   // Handle joining groups
   const handleJoinGroup = async (code: string) => {
-    if (!code.trim() || !auth.currentUser) return;
+    if (!code.trim() || !uid) return;
     
     setJoining(true);
     try {
-      const groupsQuery = query(
-        collection(db, 'groups'),
-        where('inviteCode', '==', code.trim().toUpperCase())
-      );
-      
-      const snapshot = await getDocs(groupsQuery);
-      if (snapshot.empty) {
-        throw new Error('Invalid invite code');
-      }
-
-      const groupDoc = snapshot.docs[0];
-      const groupData = groupDoc.data();
-      
-      if (groupData.members.includes(auth.currentUser.uid)) {
-        throw new Error('You are already a member of this group');
-      }
-
-      const groupRef = doc(db, 'groups', groupDoc.id);
-      await updateDoc(groupRef, {
-        members: arrayUnion(auth.currentUser.uid)
-      });
+      const groupId = await backend.invites.join(code, uid);
 
       setShowJoinModal(false);
       setInviteCode('');
+      navigate(groupPath(groupId));
 
     } catch (error) {
       console.error('Error joining group:', error);
@@ -444,15 +1647,92 @@ const ChatsPage: React.FC = () => {
     }
   };
 
+  const handleUnlockKeys = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!unlockPassword || !uid) return;
+
+    setUnlocking(true);
+    setUnlockError('');
+    try {
+      await backend.auth.unlockKeys(uid, unlockPassword);
+      setKeysLocked(false);
+      setUnlockPassword('');
+    } catch (error) {
+      console.error('Error unlocking keys:', error);
+      setUnlockError('Incorrect password or passphrase');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    setNotificationPermission(await requestNotificationPermission());
+  };
+
+  const handleSetNotificationLevel = async (level: NotificationLevel) => {
+    if (!selectedGroup || !uid) return;
+
+    setShowNotificationMenu(false);
+    try {
+      await backend.notifications.setGroupLevel(uid, selectedGroup.id, level);
+      if (level !== 'muted' && notificationPermission === 'default') {
+        await handleEnableNotifications();
+      }
+    } catch (error) {
+      console.error('Error updating notification settings:', error);
+    }
+  };
+
+  const handleToggleDoNotDisturb = async () => {
+    if (!uid) return;
+
+    try {
+      await backend.notifications.setDoNotDisturb(uid, !notificationSettings.doNotDisturb);
+    } catch (error) {
+      console.error('Error updating do not disturb:', error);
+    }
+  };
+
   const handleSignOut = async () => {
     try {
-      await auth.signOut();
+      // Also locks the encryption keys on this device
+      await backend.auth.signOut();
       navigate('/');
     } catch (error) {
       console.error('Error signing out:', error);
     }
   };
 
+  const renderGroupButton = (group: Group) => {
+    const isMuted = getGroupLevel(notificationSettings, group.id) === 'muted';
+    return (
+      <button
+        key={group.id}
+        onClick={() => handleGroupSelect(group)}
+        className={`w-full px-2 py-1.5 rounded-lg flex items-center space-x-2 transition-colors
+          ${selectedGroup?.id === group.id 
+            ? 'bg-purple-500/20 text-purple-400' 
+            : 'hover:bg-gray-800 text-gray-300'}`}
+      >
+        {group.type === 'dm' ? <AtSign className="w-4 h-4" /> : <Hash className="w-4 h-4" />}
+        <span className="truncate flex-1 text-left">
+          {getGroupDisplayName(group, uid)}
+        </span>
+        {isMuted && <BellOff className="w-3 h-3 text-gray-500" />}
+        {!!unreadCounts[group.id] && (
+          <span className={`px-1.5 min-w-[1.25rem] text-xs rounded-full text-white text-center ${
+            isMuted ? 'bg-gray-600' : 'bg-purple-500'
+          }`}>
+            {unreadCounts[group.id] > 99 ? '99+' : unreadCounts[group.id]}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  // Look the parent up in the live list so its reply count stays current
+  const threadParent = messages.find(message => message.id === threadParentId) ?? null;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#0B1121] flex items-center justify-center">
@@ -469,22 +1749,72 @@ return (
         <div className="p-4 border-b border-gray-800">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
-              <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center">
-                {userData?.username.charAt(0).toUpperCase()}
-              </div>
+              {userData?.avatarUrl ? (
+                <img
+                  src={userData.avatarUrl}
+                  alt=""
+                  className="w-8 h-8 rounded-full object-cover"
+                />
+              ) : (
+                <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center">
+                  {userData?.username.charAt(0).toUpperCase()}
+                </div>
+              )}
               <span className="font-medium">@{userData?.username}</span>
             </div>
-            <button
-              onClick={handleSignOut}
-              className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors"
-            >
-              <LogOut className="w-4 h-4 text-gray-400" />
-            </button>
+            <div className="flex items-center">
+              <button
+                onClick={handleToggleDoNotDisturb}
+                className={`p-1.5 hover:bg-gray-800 rounded-lg transition-colors ${
+                  notificationSettings.doNotDisturb ? 'text-purple-400' : 'text-gray-400'
+                }`}
+                title={notificationSettings.doNotDisturb ? 'Turn off do not disturb' : 'Do not disturb'}
+              >
+                <Moon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleOpenSearch}
+                disabled={keysLocked}
+                className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                title="Search messages"
+              >
+                <Search className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={() => navigate('/settings')}
+                className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors"
+                title="Settings"
+              >
+                <Settings className="w-4 h-4 text-gray-400" />
+              </button>
+              <button
+                onClick={handleSignOut}
+                className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors"
+              >
+                <LogOut className="w-4 h-4 text-gray-400" />
+              </button>
+            </div>
           </div>
         </div>
 
         {/* Groups List */}
         <div className="flex-1 overflow-y-auto">
+          <div className="px-4 pt-4">
+            <button
+              onClick={() => setShowMentions(true)}
+              className="w-full px-2 py-1.5 rounded-lg flex items-center space-x-2 transition-colors
+                hover:bg-gray-800 text-gray-300"
+            >
+              <AtSign className="w-4 h-4" />
+              <span className="flex-1 text-left">Mentions</span>
+              {unreadMentionCount > 0 && (
+                <span className="px-1.5 min-w-[1.25rem] text-xs rounded-full bg-purple-500 text-white text-center">
+                  {unreadMentionCount > 99 ? '99+' : unreadMentionCount}
+                </span>
+              )}
+            </button>
+          </div>
+
           <div className="p-4">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-sm font-semibold text-gray-400 uppercase">Groups</h2>
@@ -497,19 +1827,22 @@ return (
             </div>
             
             <div className="space-y-1">
-              {groups.map((group) => (
-                <button
-                  key={group.id}
-                  onClick={() => handleGroupSelect(group)}
-                  className={`w-full px-2 py-1.5 rounded-lg flex items-center space-x-2 transition-colors
-                    ${selectedGroup?.id === group.id 
-                      ? 'bg-purple-500/20 text-purple-400' 
-                      : 'hover:bg-gray-800 text-gray-300'}`}
-                >
-                  <Hash className="w-4 h-4" />
-                  <span className="truncate">{group.name}</span>
-                </button>
-              ))}
+              {groups.filter(group => group.type === 'group').map(renderGroupButton)}
+            </div>
+
+            <div className="flex items-center justify-between mt-6 mb-4">
+              <h2 className="text-sm font-semibold text-gray-400 uppercase">Direct Messages</h2>
+              <button
+                onClick={() => setShowDirectMessageModal(true)}
+                className="p-1.5 hover:bg-gray-800 rounded-lg transition-colors"
+                title="New Direct Message"
+              >
+                <Plus className="w-4 h-4 text-gray-400" />
+              </button>
+            </div>
+
+            <div className="space-y-1">
+              {groups.filter(group => group.type === 'dm').map(renderGroupButton)}
             </div>
           </div>
         </div>
@@ -528,69 +1861,511 @@ return (
       </div>
 
       {/* Main Content */}
-      <div className="flex-1 flex flex-col">
+      <div
+        className="flex-1 flex flex-col relative"
+        onDragOver={(e) => {
+          if (!selectedGroup || !e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            setIsDraggingFiles(false);
+          }
+        }}
+        onDrop={(e) => {
+          if (!selectedGroup) return;
+          e.preventDefault();
+          setIsDraggingFiles(false);
+          addAttachments(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-40 bg-purple-500/10 border-2 border-dashed border-purple-500
+            rounded-lg flex items-center justify-center pointer-events-none">
+            <span className="text-purple-300 font-medium">Drop files to attach</span>
+          </div>
+        )}
         {selectedGroup ? (
           <>
             {/* Group Header */}
             <header className="h-16 bg-gray-800/50 border-b border-gray-700/50 flex items-center justify-between px-6">
               <div className="flex items-center space-x-4">
-                <h1 className="text-lg font-semibold">{selectedGroup.name}</h1>
-                <span className="text-sm text-gray-400">{selectedGroup.description}</span>
+                <h1 className="text-lg font-semibold">
+                  {selectedGroup.type === 'dm' && '@'}
+                  {getGroupDisplayName(selectedGroup, uid)}
+                </h1>
+                {selectedGroup.type === 'group' && (
+                  <span className="text-sm text-gray-400">{selectedGroup.description}</span>
+                )}
               </div>
               <div className="flex items-center space-x-2">
+                <div className="relative">
+                  <button
+                    onClick={() => setShowNotificationMenu(!showNotificationMenu)}
+                    className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+                    title="Notification settings"
+                  >
+                    {getGroupLevel(notificationSettings, selectedGroup.id) === 'muted' ? (
+                      <BellOff className="w-5 h-5 text-gray-400" />
+                    ) : getGroupLevel(notificationSettings, selectedGroup.id) === 'mentions' ? (
+                      <AtSign className="w-5 h-5 text-gray-400" />
+                    ) : (
+                      <Bell className="w-5 h-5 text-gray-400" />
+                    )}
+                  </button>
+                  {showNotificationMenu && (
+                    <div className="absolute right-0 top-full mt-2 w-56 bg-gray-800 border border-gray-700
+                      rounded-lg shadow-lg overflow-hidden z-20">
+                      {NOTIFICATION_LEVELS.map(({ value, label }) => (
+                        <button
+                          key={value}
+                          onClick={() => handleSetNotificationLevel(value)}
+                          className="w-full px-3 py-2 text-left text-sm hover:bg-gray-700 flex items-center justify-between"
+                        >
+                          <span>{label}</span>
+                          {getGroupLevel(notificationSettings, selectedGroup.id) === value && (
+                            <Check className="w-4 h-4 text-purple-400" />
+                          )}
+                        </button>
+                      ))}
+                      {notificationPermission === 'default' && (
+                        <button
+                          onClick={handleEnableNotifications}
+                          className="w-full px-3 py-2 text-left text-sm text-purple-300 hover:bg-gray-700 border-t border-gray-700"
+                        >
+                          Enable desktop notifications
+                        </button>
+                      )}
+                      {notificationPermission === 'denied' && (
+                        <div className="px-3 py-2 text-xs text-gray-400 border-t border-gray-700">
+                          Desktop notifications are blocked in this browser
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {/* DMs are always between exactly two people */}
+                {selectedGroup.type === 'group' && (
+                  <>
+                    <button
+                      onClick={() => setShowMembersPanel(true)}
+                      className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+                      title="Members"
+                    >
+                      <Users className="w-5 h-5 text-gray-400" />
+                    </button>
+                    {uid && isAdmin(selectedGroup, uid) && (
+                      <button
+                        onClick={() => setShowInviteModal(true)}
+                        className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+                        title="Manage Invites"
+                      >
+                        <UserPlus className="w-5 h-5 text-gray-400" />
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </header>
+
+            {missingMessageId && missingMessageId === routeMessageId && (
+              <div className="px-6 py-2 bg-gray-800/50 border-b border-gray-700/50 text-sm text-gray-400
+                flex items-center gap-2">
+                <SearchX className="w-4 h-4" />
+                <span className="flex-1">This message doesn't exist or was deleted</span>
                 <button
-                  onClick={generateInviteCode}
-                  className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
-                  title="Generate Invite Code"
+                  onClick={() => navigate(groupPath(selectedGroup.id), { replace: true })}
+                  className="p-1 hover:bg-gray-700 rounded transition-colors"
+                  title="Dismiss"
                 >
-                  <UserPlus className="w-5 h-5 text-gray-400" />
+                  <X className="w-4 h-4" />
                 </button>
               </div>
-            </header>
+            )}
 
             {/* Messages Area */}
             <div 
               ref={messagesContainerRef}
-              className="flex-1 overflow-y-auto p-6 space-y-4"
+              onScroll={handleMessagesScroll}
+              className="relative flex-1 overflow-y-auto p-6"
             >
-              {messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex ${message.senderId === auth.currentUser?.uid ? 'justify-end' : 'justify-start'}`}
-                >
-                  <div
-                    className={`max-w-[70%] rounded-lg p-3 ${
-                      message.senderId === auth.currentUser?.uid
-                        ? 'bg-purple-500/20 text-purple-100'
-                        : 'bg-gray-700/50 text-gray-100'
-                    }`}
-                  >
-                    <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
-                      <span className="font-medium">{message.senderName}</span>
-                      <span className="opacity-60">•</span>
-                      <span>{formatFirestoreTimestamp(message.timestamp)}</span>
+              <div ref={topSentinelRef} />
+              {isLoadingMore && (
+                <div className="flex justify-center pb-4">
+                  <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+                </div>
+              )}
+              {/* Only the messages near the viewport are rendered */}
+              <div ref={messageList.listRef}>
+                <div style={{ height: messageList.paddingTop }} />
+                {topLevelMessages.slice(messageList.start, messageList.end).map((message) => {
+                  const isOwn = message.senderId === uid;
+                  const isDeleted = !!message.deletedAt;
+                  const mentionsMe = !!uid && !!message.mentions?.includes(uid);
+                  const seenBy = message === latestMessage
+                    ? receipts.filter(receipt =>
+                        receipt.uid !== uid
+                        && receipt.uid !== message.senderId
+                        && receipt.lastReadAt >= latestMessageTime)
+                    : [];
+
+                  return (
+                    <div
+                      key={message.id}
+                      data-virtual-key={message.id}
+                      className="pb-4 space-y-4"
+                    >
+                      {message.id === firstUnreadId && (
+                        <div className="flex items-center gap-2 text-xs text-red-400">
+                          <div className="flex-1 border-t border-red-400/50" />
+                          <span>New messages</span>
+                          <div className="flex-1 border-t border-red-400/50" />
+                        </div>
+                      )}
+                      <div
+                        id={`message-${message.id}`}
+                        className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                      >
+                        <div
+                          className={`group max-w-[70%] rounded-lg p-3 transition-shadow ${
+                            isOwn
+                              ? 'bg-purple-500/20 text-purple-100'
+                              : 'bg-gray-700/50 text-gray-100'
+                          } ${mentionsMe ? 'border-l-2 border-yellow-400' : ''} ${
+                            highlightedMessageId === message.id ? 'ring-2 ring-purple-400' : ''
+                          }`}
+                        >
+                          <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
+                            <span className="font-medium">{message.senderName}</span>
+                            <span className="opacity-60">•</span>
+                            <span>{formatMessageTime(message.timestamp)}</span>
+                            {isOwn && (message.pending ? (
+                              <span className="flex items-center gap-1" title="Sending">
+                                <Clock className="w-3 h-3" />
+                              </span>
+                            ) : (
+                              <span title="Sent">
+                                <Check className="w-3 h-3" />
+                              </span>
+                            ))}
+                            {message.editedAt && !isDeleted && (
+                              <button
+                                onClick={() => setExpandedHistoryId(
+                                  expandedHistoryId === message.id ? null : message.id
+                                )}
+                                className="italic hover:text-gray-200 transition-colors"
+                                title="Show edit history"
+                              >
+                                (edited)
+                              </button>
+                            )}
+                            {!isDeleted && editingMessageId !== message.id && (
+                              <div className="ml-auto hidden group-hover:flex items-center gap-1">
+                                <button
+                                  onClick={() => setThreadParentId(message.id)}
+                                  className="p-1 hover:bg-gray-700 rounded transition-colors"
+                                  title="Reply in thread"
+                                >
+                                  <MessageCircle className="w-3 h-3" />
+                                </button>
+                                <button
+                                  onClick={() => handleCopyMessageLink(message)}
+                                  className="p-1 hover:bg-gray-700 rounded transition-colors"
+                                  title="Copy link"
+                                >
+                                  <Link2 className="w-3 h-3" />
+                                </button>
+                                {isOwn && (
+                                  <>
+                                    <button
+                                      onClick={() => startEditing(message)}
+                                      className="p-1 hover:bg-gray-700 rounded transition-colors"
+                                      title="Edit message"
+                                    >
+                                      <Pencil className="w-3 h-3" />
+                                    </button>
+                                    <button
+                                      onClick={() => handleDeleteMessage(message)}
+                                      className="p-1 hover:bg-gray-700 rounded transition-colors"
+                                      title="Delete message"
+                                    >
+                                      <Trash2 className="w-3 h-3" />
+                                    </button>
+                                  </>
+                                )}
+                              </div>
+                            )}
+                          </div>
+
+                          {isDeleted ? (
+                            <div className="italic text-gray-400">message deleted</div>
+                          ) : editingMessageId === message.id ? (
+                            <form
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                handleEditMessage(message);
+                              }}
+                              className="flex items-end gap-2"
+                            >
+                              <textarea
+                                value={editText}
+                                onChange={(e) => setEditText(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Escape') setEditingMessageId(null);
+                                  submitOnEnter(e);
+                                }}
+                                rows={composerRows(editText)}
+                                autoFocus
+                                className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 resize-none
+                                  focus:outline-none focus:border-purple-500"
+                              />
+                              <button
+                                type="submit"
+                                disabled={!editText.trim()}
+                                className="p-1 hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+                                title="Save"
+                              >
+                                <Check className="w-4 h-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setEditingMessageId(null)}
+                                className="p-1 hover:bg-gray-700 rounded transition-colors"
+                                title="Cancel"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </form>
+                          ) : (
+                            <>
+                              {/* Remount after unlocking so failed bubbles decrypt again */}
+                              <MessageContent
+                                key={keysLocked ? 'locked' : 'unlocked'}
+                                message={message}
+                              />
+                              <MessageAttachments
+                                key={`attachments-${keysLocked ? 'locked' : 'unlocked'}`}
+                                message={message}
+                                onOpenImage={(url, name) => setLightbox({ url, name })}
+                              />
+                            </>
+                          )}
+
+                          {!isDeleted && <MessageReactions message={message} />}
+
+                          {!!message.replyCount && (
+                            <button
+                              onClick={() => setThreadParentId(message.id)}
+                              className="mt-2 text-xs text-purple-400 hover:text-purple-300 transition-colors
+                                flex items-center gap-1"
+                            >
+                              <MessageCircle className="w-3 h-3" />
+                              <span>
+                                {message.replyCount} {message.replyCount === 1 ? 'reply' : 'replies'}
+                              </span>
+                              {message.lastReplyAt && (
+                                <span className="text-gray-400">
+                                  • last reply {formatMessageTime(message.lastReplyAt)}
+                                </span>
+                              )}
+                            </button>
+                          )}
+
+                          {expandedHistoryId === message.id && !isDeleted && message.edits && (
+                            <div className="mt-2 pt-2 border-t border-gray-600/50 space-y-2">
+                              {[...message.edits].reverse().map((edit, index) => (
+                                <div key={index} className="text-sm text-gray-400">
+                                  <div className="text-xs opacity-60">
+                                    {formatMessageTime(edit.editedAt)}
+                                  </div>
+                                  <MessageContent
+                                    key={keysLocked ? 'locked' : 'unlocked'}
+                                    message={{ ...edit, groupId: message.groupId }}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      {seenBy.length > 0 && (
+                        <div className={`flex items-center gap-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                          <span className="text-xs text-gray-500 mr-1">Seen by</span>
+                          {seenBy.map(receipt => (
+                            <div
+                              key={receipt.uid}
+                              className="w-5 h-5 rounded-full bg-purple-500/60 text-[10px] flex items-center justify-center"
+                              title={receipt.username}
+                            >
+                              {receipt.username.charAt(0).toUpperCase()}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                <div style={{ height: messageList.paddingBottom }} />
+              </div>
+              {/* Queued messages the list doesn't have, e.g. failed sends */}
+              <div className="space-y-4">
+                {unsentMessages.map((entry) => (
+                  <div key={entry.id} className="flex justify-end">
+                    <div className="max-w-[70%] rounded-lg p-3 bg-purple-500/20 text-purple-100 opacity-80">
+                      <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
+                        <span className="font-medium">{entry.senderName}</span>
+                        <span className="opacity-60">•</span>
+                        {entry.status === 'failed' ? (
+                          <span className="flex items-center gap-1 text-red-400">
+                            <AlertCircle className="w-3 h-3" />
+                            Failed to send
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            Sending…
+                          </span>
+                        )}
+                      </div>
+                      <MessageContent
+                        key={keysLocked ? 'locked' : 'unlocked'}
+                        message={entry}
+                      />
+                      {entry.attachments?.map(attachment => (
+                        <div key={attachment.path} className="mt-2 text-xs text-gray-400 flex items-center gap-1">
+                          <Paperclip className="w-3 h-3" />
+                          {attachment.name}
+                        </div>
+                      ))}
+                      {entry.status === 'failed' && (
+                        <div className="mt-2 flex items-center gap-2 text-xs">
+                          <button
+                            onClick={() => retryOutboxEntry(entry)}
+                            className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 transition-colors
+                              flex items-center gap-1"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Retry
+                          </button>
+                          <button
+                            onClick={() => discardOutboxEntry(entry)}
+                            className="px-2 py-1 rounded hover:bg-gray-700 text-gray-400 transition-colors"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      )}
                     </div>
-                    <div className="break-words">{message.content}</div>
                   </div>
+                ))}
+              </div>
+              <div ref={bottomSentinelRef} />
+              {isLoadingNewer && (
+                <div className="flex justify-center pt-4">
+                  <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
                 </div>
-              ))}
-              <div ref={messagesEndRef} />
+              )}
+              {(hasUnseenMessages || hasNewerMessages) && (
+                <div className="sticky bottom-0 flex justify-center pointer-events-none">
+                  <button
+                    onClick={handleJumpToBottom}
+                    className="pointer-events-auto px-3 py-1.5 rounded-full bg-purple-500 hover:bg-purple-600
+                      text-sm text-white shadow-lg flex items-center gap-1 transition-colors"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                    {hasNewerMessages ? 'Jump to latest' : 'New messages'}
+                  </button>
+                </div>
+              )}
             </div>
 
             {/* Message Input */}
-            <form onSubmit={handleSendMessage} className="p-4 border-t border-gray-700">
-              <div className="flex space-x-4">
-                <input
-                  type="text"
+            <form onSubmit={handleSendMessage} className="px-4 pb-4 border-t border-gray-700">
+              <div className="h-6 text-xs text-gray-400 italic flex items-center">
+                {typingUsers.length > 0 && formatTypingUsers(typingUsers)}
+              </div>
+              {pendingAttachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {pendingAttachments.map((pending) => (
+                    <div
+                      key={pending.id}
+                      className="relative w-48 bg-gray-700 rounded-lg px-3 py-2 text-sm overflow-hidden"
+                    >
+                      <div className="flex items-center gap-2">
+                        <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                        <span className="truncate flex-1">{pending.file.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => removePendingAttachment(pending)}
+                          className="p-0.5 hover:bg-gray-600 rounded transition-colors"
+                          title="Remove"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {pending.error
+                          ? <span className="text-red-400">{pending.error}</span>
+                          : pending.attachment
+                            ? formatFileSize(pending.file.size)
+                            : `Uploading ${Math.round(pending.progress * 100)}%`}
+                      </div>
+                      {!pending.attachment && !pending.error && (
+                        <div
+                          className="absolute bottom-0 left-0 h-0.5 bg-purple-500 transition-all"
+                          style={{ width: `${pending.progress * 100}%` }}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-end space-x-4">
+                <label
+                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors
+                    flex items-center cursor-pointer"
+                  title="Attach files"
+                >
+                  <Paperclip className="w-5 h-5 text-gray-400" />
+                  <input
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      addAttachments(Array.from(e.target.files ?? []));
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <MentionTextarea
                   value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
-                  className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2
+                  memberNames={selectedGroupMemberNames}
+                  onKeyDown={submitOnEnter}
+                  rows={composerRows(newMessage)}
+                  onValueChange={(value) => {
+                    setNewMessage(value);
+                    if (value) {
+                      notifyTyping();
+                    } else {
+                      stopTyping();
+                    }
+                  }}
+                  onBlur={stopTyping}
+                  onPaste={(e) => {
+                    const files = Array.from(e.clipboardData.files);
+                    if (files.length > 0) {
+                      e.preventDefault();
+                      addAttachments(files);
+                    }
+                  }}
+                  className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 resize-none
                     focus:outline-none focus:border-purple-500"
-                  placeholder={`Message ${selectedGroup.name}`}
+                  placeholder={`Message ${getGroupDisplayName(selectedGroup, uid)}`}
                 />
                 <button
                   type="submit"
-                  disabled={!newMessage.trim()}
+                  disabled={!canSend}
                   className="px-4 py-2 bg-purple-500 hover:bg-purple-600 rounded-lg
                     transition-colors disabled:opacity-50 disabled:cursor-not-allowed
                     flex items-center space-x-2"
@@ -600,6 +2375,38 @@ return (
               </div>
             </form>
           </>
+        ) : routeGroupId && (linkedGroupAccess === null || linkedGroupAccess === 'member') ? (
+          // Still loading, or a group just joined that the list hasn't caught up with
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+          </div>
+        ) : routeGroupId ? (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-800/50 rounded-full flex items-center justify-center mx-auto mb-4">
+                {linkedGroupAccess === 'not-member'
+                  ? <Lock className="w-8 h-8 text-gray-400" />
+                  : <SearchX className="w-8 h-8 text-gray-400" />}
+              </div>
+              {linkedGroupAccess === 'not-member' ? (
+                <>
+                  <h3 className="text-lg font-medium text-gray-300 mb-2">You're not a member of this group</h3>
+                  <p className="text-gray-400 mb-4">Ask a group admin for an invite code to join.</p>
+                  <button
+                    onClick={() => setShowJoinModal(true)}
+                    className="px-4 py-2 bg-purple-500 hover:bg-purple-600 rounded-lg transition-colors"
+                  >
+                    Join with invite code
+                  </button>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-medium text-gray-300 mb-2">Group not found</h3>
+                  <p className="text-gray-400">This group doesn't exist or has been deleted.</p>
+                </>
+              )}
+            </div>
+          </div>
         ) : (
           <div className="flex-1 flex items-center justify-center">
             <div className="text-center">
@@ -613,6 +2420,39 @@ return (
         )}
       </div>
 
+      {/* Thread Panel */}
+      {selectedGroup && threadParent && userData && (
+        <ThreadPanel
+          parent={threadParent}
+          group={selectedGroup}
+          username={userData.username}
+          memberNames={selectedGroupMemberNames}
+          keysLocked={keysLocked}
+          onClose={() => setThreadParentId(null)}
+        />
+      )}
+
+      {/* Image Lightbox */}
+      {lightbox && (
+        <div
+          className="fixed inset-0 bg-black/80 flex items-center justify-center p-8 z-50"
+          onClick={() => setLightbox(null)}
+        >
+          <button
+            onClick={() => setLightbox(null)}
+            className="absolute top-4 right-4 p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+          <img
+            src={lightbox.url}
+            alt={lightbox.name}
+            className="max-w-full max-h-full rounded-lg"
+            onClick={(e) => e.stopPropagation()}
+          />
+        </div>
+      )}
+
       {/* Create Group Modal */}
       {showCreateGroup && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
@@ -678,7 +2518,7 @@ return (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-semibold">Invite Code</h2>
+              <h2 className="text-xl font-semibold">Invites</h2>
               <button
                 onClick={() => setShowInviteModal(false)}
                 className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
@@ -688,24 +2528,464 @@ return (
             </div>
 
             <div className="space-y-4">
-              <div className="flex items-center space-x-2 bg-gray-700 rounded-lg p-3">
-                <span className="flex-1 font-mono text-lg select-all">{inviteCode}</span>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Expires after</label>
+                  <select
+                    value={inviteExpiryIndex}
+                    onChange={(e) => setInviteExpiryIndex(Number(e.target.value))}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2
+                      focus:outline-none focus:border-purple-500"
+                  >
+                    {INVITE_EXPIRY_OPTIONS.map((option, index) => (
+                      <option key={option.label} value={index}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Max uses</label>
+                  <select
+                    value={inviteMaxUsesIndex}
+                    onChange={(e) => setInviteMaxUsesIndex(Number(e.target.value))}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2
+                      focus:outline-none focus:border-purple-500"
+                  >
+                    {INVITE_MAX_USES_OPTIONS.map((option, index) => (
+                      <option key={option.label} value={index}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <button
+                onClick={handleCreateInvite}
+                disabled={creatingInvite}
+                className="w-full py-2 bg-purple-500 hover:bg-purple-600 rounded-lg
+                  transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+                  flex items-center justify-center space-x-2"
+              >
+                {creatingInvite ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <>
+                    <Plus className="w-5 h-5" />
+                    <span>Create Invite</span>
+                  </>
+                )}
+              </button>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-400 uppercase mb-2">Active invites</h3>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {invites.filter(invite => isInviteActive(invite)).map((invite) => (
+                    <div key={invite.code} className="bg-gray-700 rounded-lg p-3">
+                      <div className="flex items-center space-x-2">
+                        <span className="flex-1 font-mono text-lg select-all">{invite.code}</span>
+                        <button
+                          onClick={() => {
+                            navigator.clipboard.writeText(invite.code);
+                          }}
+                          className="p-2 hover:bg-gray-600 rounded-lg transition-colors"
+                          title="Copy to clipboard"
+                        >
+                          <Copy className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleRevokeInvite(invite.code)}
+                          className="p-2 hover:bg-gray-600 rounded-lg transition-colors text-red-400"
+                          title="Revoke invite"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1 space-x-2">
+                        <span>
+                          {invite.uses}{invite.maxUses !== null && ` / ${invite.maxUses}`} uses
+                        </span>
+                        <span>•</span>
+                        <span>
+                          {invite.expiresAt
+                            ? `Expires ${invite.expiresAt.toLocaleString()}`
+                            : 'Never expires'}
+                        </span>
+                        <span>•</span>
+                        <span>by @{memberNames[invite.createdBy] ?? '…'}</span>
+                      </div>
+                    </div>
+                  ))}
+                  {!invites.some(invite => isInviteActive(invite)) && (
+                    <p className="text-sm text-gray-400">No active invites.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Members Modal */}
+      {showMembersPanel && selectedGroup && uid && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Members</h2>
+              <button
+                onClick={() => setShowMembersPanel(false)}
+                className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {selectedGroup.members.map((memberUid) => {
+                const role = getRole(selectedGroup, memberUid);
+                const isOwner = getRole(selectedGroup, uid) === 'owner';
+
+                return (
+                  <div
+                    key={memberUid}
+                    className="flex items-center justify-between bg-gray-700/50 rounded-lg px-3 py-2"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center">
+                        {(memberNames[memberUid] ?? '?').charAt(0).toUpperCase()}
+                      </div>
+                      <span>@{memberNames[memberUid] ?? '…'}</span>
+                      {role === 'owner' && <Crown className="w-4 h-4 text-yellow-400" />}
+                      {role === 'admin' && <Shield className="w-4 h-4 text-purple-400" />}
+                      <span className="text-xs text-gray-400 capitalize">{role}</span>
+                    </div>
+
+                    {memberUid !== uid && (
+                      <div className="flex items-center space-x-1 text-xs">
+                        {updatingMember === memberUid ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <>
+                            {isOwner && role === 'member' && (
+                              <button
+                                onClick={() => handleMemberAction('promote', memberUid)}
+                                className="px-2 py-1 hover:bg-gray-600 rounded transition-colors"
+                              >
+                                Promote
+                              </button>
+                            )}
+                            {isOwner && role === 'admin' && (
+                              <button
+                                onClick={() => handleMemberAction('demote', memberUid)}
+                                className="px-2 py-1 hover:bg-gray-600 rounded transition-colors"
+                              >
+                                Demote
+                              </button>
+                            )}
+                            {canRemoveMember(selectedGroup, uid, memberUid) && (
+                              <button
+                                onClick={() => handleMemberAction('remove', memberUid)}
+                                className="px-2 py-1 text-red-400 hover:bg-gray-600 rounded transition-colors"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={handleLeaveGroup}
+              className="mt-4 w-full py-2 bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded-lg
+                transition-colors flex items-center justify-center space-x-2"
+            >
+              <LogOut className="w-5 h-5" />
+              <span>Leave Group</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Mentions Modal */}
+      {showMentions && (
+        <div className="fixed inset-0 bg-black/50 flex items-start justify-center p-4 pt-24 z-50">
+          <div className="bg-gray-800 rounded-lg p-6 w-full max-w-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Mentions</h2>
+              <div className="flex items-center space-x-2">
+                {unreadMentionCount > 0 && (
+                  <button
+                    onClick={markAllMentionsRead}
+                    className="px-2 py-1 text-sm text-gray-300 hover:bg-gray-700 rounded-lg transition-colors"
+                  >
+                    Mark all read
+                  </button>
+                )}
                 <button
-                  onClick={() => {
-                    navigator.clipboard.writeText(inviteCode);
-                  }}
-                  className="p-2 hover:bg-gray-600 rounded-lg transition-colors"
-                  title="Copy to clipboard"
+                  onClick={() => setShowMentions(false)}
+                  className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
                 >
-                  <Copy className="w-5 h-5" />
+                  <X className="w-5 h-5" />
                 </button>
               </div>
-              
+            </div>
+
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {mentions.length === 0 && (
+                <p className="text-sm text-gray-400">Nobody has mentioned you yet</p>
+              )}
+              {mentions.map((mention) => {
+                const group = groups.find(group => group.id === mention.groupId);
+                return (
+                  // Not a <button>, the preview can contain links and copy buttons
+                  <div
+                    key={mention.id}
+                    role="button"
+                    onClick={() => handleOpenMention(mention)}
+                    className={`w-full text-left rounded-lg p-3 transition-colors cursor-pointer ${
+                      mention.readAt ? 'bg-gray-700/30 hover:bg-gray-700' : 'bg-gray-700/70 hover:bg-gray-700'
+                    }`}
+                  >
+                    <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
+                      {!mention.readAt && <span className="w-2 h-2 rounded-full bg-purple-500" />}
+                      <span className="font-medium">@{mention.senderName}</span>
+                      <span className="opacity-60">•</span>
+                      <span>
+                        {group ? `${group.type === 'dm' ? '@' : '#'}${getGroupDisplayName(group, uid)}` : 'a group you left'}
+                      </span>
+                      <span className="opacity-60">•</span>
+                      <span>{mention.createdAt.toLocaleString()}</span>
+                      {mention.parentId && <span className="italic">in thread</span>}
+                    </div>
+                    {group && !keysLocked && <MentionPreview messageId={mention.messageId} />}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Search Modal */}
+      {showSearch && (
+        <div className="fixed inset-0 bg-black/50 flex items-start justify-center p-4 pt-24 z-50">
+          <div className="bg-gray-800 rounded-lg p-6 w-full max-w-2xl">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Search Messages</h2>
+              <button
+                onClick={() => setShowSearch(false)}
+                className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  autoFocus
+                  className="w-full bg-gray-700 border border-gray-600 rounded-lg pl-9 pr-4 py-2
+                    focus:outline-none focus:border-purple-500"
+                  placeholder="Search your groups and direct messages"
+                />
+              </div>
+
+              <div className="grid grid-cols-4 gap-2 text-sm">
+                <select
+                  value={searchGroupId}
+                  onChange={(e) => setSearchGroupId(e.target.value)}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5
+                    focus:outline-none focus:border-purple-500"
+                >
+                  <option value="">All groups</option>
+                  {groups.map(group => (
+                    <option key={group.id} value={group.id}>
+                      {group.type === 'dm' ? '@' : '#'}{getGroupDisplayName(group, uid)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={searchSenderId}
+                  onChange={(e) => setSearchSenderId(e.target.value)}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5
+                    focus:outline-none focus:border-purple-500"
+                >
+                  <option value="">Anyone</option>
+                  {searchSenders.map(sender => (
+                    <option key={sender.uid} value={sender.uid}>@{sender.username}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={searchFrom}
+                  onChange={(e) => setSearchFrom(e.target.value)}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5
+                    focus:outline-none focus:border-purple-500"
+                  title="From"
+                />
+                <input
+                  type="date"
+                  value={searchTo}
+                  onChange={(e) => setSearchTo(e.target.value)}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5
+                    focus:outline-none focus:border-purple-500"
+                  title="To"
+                />
+              </div>
+
+              <div className="text-xs text-gray-400 flex items-center gap-2">
+                {indexingSearch ? (
+                  <>
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    <span>Indexing messages…</span>
+                  </>
+                ) : (
+                  <span>{indexedCount} messages indexed on this device</span>
+                )}
+              </div>
+
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {searchQuery.trim() && searchResults.length === 0 && !indexingSearch && (
+                  <p className="text-sm text-gray-400">No messages found</p>
+                )}
+                {searchResults.map(({ message, snippet }) => {
+                  const group = groups.find(group => group.id === message.groupId);
+                  return (
+                    <button
+                      key={message.id}
+                      onClick={() => handleJumpToMessage(message)}
+                      className="w-full text-left bg-gray-700/50 hover:bg-gray-700 rounded-lg p-3 transition-colors"
+                    >
+                      <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
+                        <span className="font-medium">@{message.senderName}</span>
+                        <span className="opacity-60">•</span>
+                        <span>
+                          {group ? `${group.type === 'dm' ? '@' : '#'}${getGroupDisplayName(group, uid)}` : ''}
+                        </span>
+                        <span className="opacity-60">•</span>
+                        <span>{new Date(message.timestamp).toLocaleString()}</span>
+                        {message.parentId && <span className="italic">in thread</span>}
+                      </div>
+                      <div className="text-sm break-words">
+                        {snippet.map((part, index) => part.match ? (
+                          <mark key={index} className="bg-purple-500/40 text-white rounded px-0.5">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        ))}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Direct Message Modal */}
+      {showDirectMessageModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">New Direct Message</h2>
+              <button
+                onClick={() => {
+                  setShowDirectMessageModal(false);
+                  setDirectMessageUsername('');
+                }}
+                className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Username</label>
+                <input
+                  type="text"
+                  value={directMessageUsername}
+                  onChange={(e) => setDirectMessageUsername(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2
+                    focus:outline-none focus:border-purple-500"
+                  placeholder="Enter a username"
+                />
+              </div>
+
+              <button
+                onClick={() => handleStartDirectMessage(directMessageUsername)}
+                disabled={startingDirectMessage || !directMessageUsername.trim()}
+                className="w-full py-2 bg-purple-500 hover:bg-purple-600 rounded-lg
+                  transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+                  flex items-center justify-center space-x-2"
+              >
+                {startingDirectMessage ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <>
+                    <MessageSquare className="w-5 h-5" />
+                    <span>Start Conversation</span>
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Unlock Keys Modal */}
+      {keysLocked && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
+            <div className="flex items-center space-x-2 mb-4">
+              <Lock className="w-5 h-5 text-purple-400" />
+              <h2 className="text-xl font-semibold">Unlock Messages</h2>
+            </div>
+
+            <form onSubmit={handleUnlockKeys} className="space-y-4">
               <p className="text-sm text-gray-400">
-                Share this code with others to invite them to the group.
-                The code can be used multiple times.
+                Messages are end-to-end encrypted. Enter your password (or your
+                encryption passphrase, if you sign in with Google or GitHub) to
+                unlock your encryption keys on this device.
               </p>
-            </div>
+
+              <input
+                type="password"
+                value={unlockPassword}
+                onChange={(e) => setUnlockPassword(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2
+                  focus:outline-none focus:border-purple-500"
+                placeholder="Password or passphrase"
+              />
+
+              {unlockError && (
+                <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+                  {unlockError}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={unlocking || !unlockPassword}
+                className="w-full py-2 bg-purple-500 hover:bg-purple-600 rounded-lg
+                  transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+                  flex items-center justify-center space-x-2"
+              >
+                {unlocking ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <span>Unlock</span>
+                )}
+              </button>
+            </form>
           </div>
         </div>
       )}
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useChatBackend } from '../hooks/useChatBackend';
+import { RedirectState } from '../utils/routes';
+import { hasVerifiedEmail } from '../utils/authProviders';
+
+// Accounts without a profile end up here: first sign-ins with a provider or
+// an email link, and sign-ups that failed halfway and couldn't be repaired
+// under their original name
+const ChooseUsernamePage: React.FC = () => {
+  const [username, setUsername] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [checkingProfile, setCheckingProfile] = useState(true);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { auth } = useChatBackend();
+  const redirectState = location.state as RedirectState | null;
+
+  const continueToApp = () => {
+    const user = auth.currentUser();
+    if (user && !hasVerifiedEmail(user)) {
+      navigate('/verify-email', { state: redirectState, replace: true });
+    } else {
+      navigate(redirectState?.from ?? '/chats', { replace: true });
+    }
+  };
+
+  // Nothing to do for accounts that already have a profile
+  useEffect(() => {
+    const uid = auth.currentUser()?.uid;
+    if (!uid) return;
+
+    const checkProfile = async () => {
+      try {
+        if (await auth.getProfile(uid)) {
+          navigate(redirectState?.from ?? '/chats', { replace: true });
+          return;
+        }
+      } catch (error) {
+        console.error('Error fetching profile:', error);
+      }
+      setCheckingProfile(false);
+    };
+
+    checkProfile();
+  }, [auth, navigate, redirectState]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (username.length < 3) {
+      setError('Username must be at least 3 characters long');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+    if (passphrase.length < 6) {
+      setError('Passphrase must be at least 6 characters long');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (await auth.isUsernameTaken(username)) {
+        setError('Username is already taken');
+        return;
+      }
+
+      await auth.completeProfile({ username, passphrase });
+      continueToApp();
+    } catch (error) {
+      console.error('Error creating profile:', error);
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await auth.signOut();
+      navigate('/auth');
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
+  if (checkingProfile) {
+    return (
+      <div className="min-h-screen bg-[#0B1121] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0B1121] text-white flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md p-8 rounded-2xl bg-gray-800/50 border border-gray-700/50">
+        <h2 className="text-3xl font-bold text-center mb-4 bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+          Pick a Username
+        </h2>
+        <p className="text-sm text-gray-400 text-center mb-8">
+          Messages are end-to-end encrypted. Choose a passphrase to lock your
+          encryption keys; you'll need it to read messages on a new device.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium mb-2">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                transition-colors"
+              placeholder="Choose a username"
+              required
+              minLength={3}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Encryption passphrase</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                transition-colors"
+              placeholder="Choose a passphrase"
+              required
+              minLength={6}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Confirm passphrase</label>
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                transition-colors"
+              placeholder="Re-enter your passphrase"
+              required
+              minLength={6}
+            />
+          </div>
+
+          {error && (
+            <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700
+              transition-colors font-medium text-white focus:ring-2
+              focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800
+              disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Please wait...' : 'Continue'}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleSignOut}
+            className="text-purple-400 hover:text-purple-300 transition-colors text-sm"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChooseUsernamePage;
@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { AuthError } from 'firebase/auth';
+import { Loader2 } from 'lucide-react';
+import { useChatBackend } from '../hooks/useChatBackend';
+import { SecondFactorChallenge, SecondFactorRequiredError } from '../backend/chatBackend';
+import { clearEmailForSignIn, loadEmailForSignIn } from '../utils/emailLink';
+
+// Where emailed sign-in links land. Signs in straight away on the device
+// the link was requested from, and asks for the address anywhere else.
+const EmailLinkPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { auth } = useChatBackend();
+  const [isValidLink] = useState(() => auth.isSignInLink(window.location.href));
+  const [email, setEmail] = useState('');
+  const [askForEmail, setAskForEmail] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  // Set while the sign-in waits for a code from the authenticator app
+  const [secondFactor, setSecondFactor] = useState<SecondFactorChallenge | null>(null);
+  const [totpCode, setTotpCode] = useState('');
+  // The link only works once, so don't follow it twice in StrictMode
+  const startedRef = useRef(false);
+
+  const completeSignIn = useCallback(async (linkEmail: string) => {
+    setError('');
+    setLoading(true);
+    try {
+      const { needsProfile } = await auth.signInWithLink(linkEmail, window.location.href);
+      clearEmailForSignIn();
+      navigate(needsProfile ? '/choose-username' : '/chats', { replace: true });
+    } catch (err) {
+      if (err instanceof SecondFactorRequiredError) {
+        clearEmailForSignIn();
+        setSecondFactor(err.challenge);
+        setLoading(false);
+        return;
+      }
+
+      const firebaseError = err as AuthError;
+      switch (firebaseError.code) {
+        case 'auth/invalid-action-code':
+        case 'auth/expired-action-code':
+          setError('This sign-in link has expired or was already used. Please request a new one.');
+          break;
+        case 'auth/invalid-email':
+          setError("That email doesn't match the one the link was sent to.");
+          setAskForEmail(true);
+          break;
+        default:
+          setError(firebaseError.message);
+          setAskForEmail(true);
+      }
+      setLoading(false);
+    }
+  }, [auth, navigate]);
+
+  useEffect(() => {
+    if (!isValidLink || startedRef.current) return;
+    startedRef.current = true;
+
+    const savedEmail = loadEmailForSignIn();
+    if (savedEmail) {
+      completeSignIn(savedEmail);
+    } else {
+      setAskForEmail(true);
+    }
+  }, [isValidLink, completeSignIn]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    completeSignIn(email);
+  };
+
+  // Accounts with a second factor already have a profile
+  const handleSecondFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secondFactor) return;
+
+    setError('');
+    setLoading(true);
+    try {
+      await secondFactor.resolve(totpCode.trim());
+      navigate('/chats', { replace: true });
+    } catch (err) {
+      const firebaseError = err as AuthError;
+      setError(firebaseError.code === 'auth/invalid-verification-code'
+        ? 'That code is incorrect. Enter the current one from your authenticator app.'
+        : firebaseError.message);
+      setLoading(false);
+    }
+  };
+
+  if (isValidLink && !askForEmail && !error && !secondFactor) {
+    return (
+      <div className="min-h-screen bg-[#0B1121] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0B1121] text-white flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md p-8 rounded-2xl bg-gray-800/50 border border-gray-700/50">
+        <h2 className="text-3xl font-bold text-center mb-8 bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+          Sign In With a Link
+        </h2>
+
+        {!isValidLink ? (
+          <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+            This isn't a valid sign-in link.
+          </div>
+        ) : secondFactor ? (
+          <form onSubmit={handleSecondFactor} className="space-y-6">
+            <p className="text-sm text-gray-400">
+              Enter the 6-digit code from your authenticator app, or a backup
+              code, to finish signing in.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Code</label>
+              <input
+                type="text"
+                autoComplete="one-time-code"
+                value={totpCode}
+                onChange={(e) => setTotpCode(e.target.value)}
+                className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                  focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                  transition-colors tracking-widest"
+                placeholder="123456"
+                required
+                maxLength={11}
+              />
+            </div>
+
+            {error && (
+              <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700
+                transition-colors font-medium text-white focus:ring-2
+                focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800
+                disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Please wait...' : 'Verify'}
+            </button>
+          </form>
+        ) : askForEmail ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <p className="text-sm text-gray-400">
+              Opened the link on a different device? Confirm the email you
+              requested it with.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+                  focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+                  transition-colors"
+                placeholder="Enter your email"
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700
+                transition-colors font-medium text-white focus:ring-2
+                focus:ring-purple-500 focus:ring-offset-2 focus:ring-offset-gray-800
+                disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Please wait...' : 'Sign In'}
+            </button>
+          </form>
+        ) : (
+          <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link to="/auth" className="text-purple-400 hover:text-purple-300 transition-colors">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailLinkPage;
@@ -0,0 +1,833 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AuthError } from 'firebase/auth';
+import { ArrowLeft, Camera, Check, Loader2, ShieldCheck, X } from 'lucide-react';
+import { useChatBackend } from '../hooks/useChatBackend';
+import {
+  KeyPassphraseError,
+  OAuthProviderId,
+  SecondFactorChallenge,
+  SecondFactorRequiredError,
+  TotpEnrollment
+} from '../backend/chatBackend';
+import { UserData } from '../types/chat';
+import { OAUTH_PROVIDERS, hasProvider } from '../utils/authProviders';
+import { encodeQrCode } from '../utils/qrCode';
+
+const BIO_MAX_LENGTH = 200;
+
+const inputClassName = `w-full p-3 rounded-lg bg-gray-700 border border-gray-600 text-white
+  focus:border-purple-500 focus:ring-1 focus:ring-purple-500 outline-none
+  transition-colors`;
+
+const buttonClassName = `px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700
+  transition-colors font-medium text-white
+  disabled:opacity-50 disabled:cursor-not-allowed`;
+
+const describeError = (err: unknown) => {
+  const firebaseError = err as AuthError;
+  switch (firebaseError.code) {
+    case 'auth/wrong-password':
+    case 'auth/invalid-credential':
+      return 'Your current password is incorrect.';
+    case 'auth/email-already-in-use':
+      return 'This email is already registered to another account.';
+    case 'auth/invalid-email':
+      return 'Please enter a valid email address.';
+    case 'auth/weak-password':
+      return 'Password should be at least 6 characters long.';
+    case 'auth/requires-recent-login':
+      return 'Please sign out and in again before making this change.';
+    case 'auth/credential-already-in-use':
+      return 'That account is already connected to another user.';
+    case 'auth/invalid-verification-code':
+      return 'That code is incorrect. Enter the current one from your authenticator app.';
+    case 'auth/unverified-email':
+      return 'Verify your email before turning on two-factor authentication.';
+    case 'auth/operation-not-allowed':
+      return "Two-factor authentication isn't enabled for this app.";
+    default:
+      return firebaseError.message;
+  }
+};
+
+// Authenticator keys are read out in groups of four
+const formatSecretKey = (secretKey: string) => secretKey.match(/.{1,4}/g)?.join(' ') ?? secretKey;
+
+const QrCode = ({ text }: { text: string }) => {
+  const modules = useMemo(() => encodeQrCode(text), [text]);
+  // Four modules of quiet zone on each side
+  const size = modules.length + 8;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4},${y + 4}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-48 h-48 rounded-lg" shapeRendering="crispEdges">
+      <rect width={size} height={size} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+interface PendingChange {
+  challenge: SecondFactorChallenge;
+  // Runs once the code has been accepted and the change made
+  onDone: () => void;
+}
+
+const Status = ({ error, message }: { error: string; message: string }) => (
+  <>
+    {error && (
+      <div className="text-red-400 text-sm bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+        {error}
+      </div>
+    )}
+    {message && (
+      <div className="text-green-400 text-sm bg-green-400/10 p-3 rounded-lg border border-green-400/20">
+        {message}
+      </div>
+    )}
+  </>
+);
+
+const SettingsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { auth, account } = useChatBackend();
+  const user = auth.currentUser();
+  const uid = user?.uid;
+
+  const [profile, setProfile] = useState<UserData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [username, setUsername] = useState('');
+  const [bio, setBio] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileError, setProfileError] = useState('');
+  const [profileMessage, setProfileMessage] = useState('');
+
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [emailError, setEmailError] = useState('');
+  const [emailMessage, setEmailMessage] = useState('');
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Asked for once the private key turns out to be locked with something
+  // other than the current password, e.g. after a password reset
+  const [keyPassphrase, setKeyPassphrase] = useState<string | null>(null);
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordMessage, setPasswordMessage] = useState('');
+
+  // The user object changes in place when linking, so keep its providers here
+  const [providerIds, setProviderIds] = useState(() =>
+    user ? user.providerData.map(info => info.providerId) : []);
+  const [linkingProvider, setLinkingProvider] = useState<OAuthProviderId | null>(null);
+  const [providersError, setProvidersError] = useState('');
+  // Accounts that only sign in with a provider have no password to change
+  const hasPassword = !!user && hasProvider(user, 'password');
+
+  const [secondFactors, setSecondFactors] = useState(() => account.secondFactors());
+  const [mfaPassword, setMfaPassword] = useState('');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [totpCode, setTotpCode] = useState('');
+  // Shown once, right after turning two-factor authentication on
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [savingMfa, setSavingMfa] = useState(false);
+  const [mfaError, setMfaError] = useState('');
+
+  // Set while an account change waits for a code from the authenticator app
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [changeCode, setChangeCode] = useState('');
+  const [confirmingChange, setConfirmingChange] = useState(false);
+  const [changeError, setChangeError] = useState('');
+
+  useEffect(() => {
+    if (!uid) return;
+
+    const fetchProfile = async () => {
+      try {
+        const data = await auth.getProfile(uid);
+        setProfile(data);
+        setUsername(data?.username ?? '');
+        setBio(data?.bio ?? '');
+      } catch (error) {
+        console.error('Error fetching profile:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [auth, uid]);
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!uid || !file) return;
+
+    setProfileError('');
+    setProfileMessage('');
+    setUploadingAvatar(true);
+    try {
+      const avatarUrl = await account.uploadAvatar(uid, file);
+      setProfile(prev => prev && { ...prev, avatarUrl });
+      setProfileMessage('Avatar updated.');
+    } catch (error) {
+      console.error('Error uploading avatar:', error);
+      setProfileError(describeError(error));
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!uid || !profile) return;
+
+    setProfileError('');
+    setProfileMessage('');
+
+    const newUsername = username.trim();
+    if (newUsername.length < 3) {
+      setProfileError('Username must be at least 3 characters long');
+      return;
+    }
+
+    setSavingProfile(true);
+    try {
+      if (newUsername !== profile.username) {
+        await account.rename(uid, newUsername);
+      }
+      if (bio.trim() !== (profile.bio ?? '')) {
+        await account.updateProfile(uid, { bio });
+      }
+      setProfile({ ...profile, username: newUsername, bio: bio.trim() || undefined });
+      setUsername(newUsername);
+      setBio(bio.trim());
+      setProfileMessage('Profile saved.');
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      setProfileError(describeError(error));
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  // Firebase asks accounts with two-factor authentication for a code before
+  // changing their email, password or second factors
+  const askForCode = (challenge: SecondFactorChallenge, onDone: () => void) => {
+    setPendingChange({ challenge, onDone });
+    setChangeCode('');
+    setChangeError('');
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmailError('');
+    setEmailMessage('');
+
+    if (newEmail.trim() === user?.email) {
+      setEmailError('That is already your email address.');
+      return;
+    }
+
+    const address = newEmail.trim();
+    const linkSent = () => {
+      setEmailMessage(`We sent a link to ${address}. Your email changes once you follow it.`);
+      setNewEmail('');
+      setEmailPassword('');
+    };
+
+    setSavingEmail(true);
+    try {
+      await account.changeEmail(emailPassword, address);
+      linkSent();
+    } catch (error) {
+      if (error instanceof SecondFactorRequiredError) {
+        askForCode(error.challenge, linkSent);
+      } else {
+        console.error('Error changing email:', error);
+        setEmailError(describeError(error));
+      }
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError('');
+    setPasswordMessage('');
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+    if (newPassword.length < 6) {
+      setPasswordError('Password must be at least 6 characters long');
+      return;
+    }
+
+    const passwordChanged = () => {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setKeyPassphrase(null);
+      setPasswordMessage('Password changed.');
+    };
+
+    setSavingPassword(true);
+    try {
+      await account.changePassword(currentPassword, newPassword, keyPassphrase ?? undefined);
+      passwordChanged();
+    } catch (error) {
+      if (error instanceof SecondFactorRequiredError) {
+        askForCode(error.challenge, passwordChanged);
+      } else if (error instanceof KeyPassphraseError) {
+        setPasswordError(keyPassphrase === null
+          ? 'Your encryption keys are locked with a different password, e.g. the one from before a reset. Enter it below.'
+          : 'That password or passphrase does not unlock your encryption keys.');
+        setKeyPassphrase(prev => prev ?? '');
+      } else {
+        console.error('Error changing password:', error);
+        setPasswordError(describeError(error));
+      }
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const handleLinkProvider = async (providerId: OAuthProviderId) => {
+    setProvidersError('');
+    setLinkingProvider(providerId);
+    try {
+      const linkedUser = await account.linkProvider(providerId);
+      setProviderIds(linkedUser.providerData.map(info => info.providerId));
+    } catch (error) {
+      const code = (error as AuthError).code;
+      if (code !== 'auth/popup-closed-by-user' && code !== 'auth/cancelled-popup-request') {
+        console.error('Error linking provider:', error);
+        setProvidersError(describeError(error));
+      }
+    } finally {
+      setLinkingProvider(null);
+    }
+  };
+
+  const handleStartEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (secondFactors.length > 0) return;
+
+    setMfaError('');
+    setSavingMfa(true);
+    try {
+      setEnrollment(await account.startTotpEnrollment(hasPassword ? mfaPassword : undefined));
+      setMfaPassword('');
+      setTotpCode('');
+    } catch (error) {
+      console.error('Error starting two-factor enrollment:', error);
+      setMfaError(describeError(error));
+    } finally {
+      setSavingMfa(false);
+    }
+  };
+
+  const handleFinishEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    setMfaError('');
+    setSavingMfa(true);
+    try {
+      setBackupCodes(await enrollment.finish(totpCode.trim(), 'Authenticator app'));
+      setEnrollment(null);
+      setSecondFactors(account.secondFactors());
+    } catch (error) {
+      console.error('Error enrolling second factor:', error);
+      setMfaError(describeError(error));
+    } finally {
+      setSavingMfa(false);
+    }
+  };
+
+  const handleUnenroll = async (factorUid: string) => {
+    if (hasPassword && !mfaPassword) {
+      setMfaError('Enter your current password to turn off two-factor authentication.');
+      return;
+    }
+    if (!window.confirm('Turn off two-factor authentication?')) return;
+
+    const factorRemoved = () => {
+      setMfaPassword('');
+      setSecondFactors(account.secondFactors());
+    };
+
+    setMfaError('');
+    setSavingMfa(true);
+    try {
+      await account.unenrollSecondFactor(factorUid, hasPassword ? mfaPassword : undefined);
+      factorRemoved();
+    } catch (error) {
+      if (error instanceof SecondFactorRequiredError) {
+        askForCode(error.challenge, factorRemoved);
+      } else {
+        console.error('Error removing second factor:', error);
+        setMfaError(describeError(error));
+      }
+    } finally {
+      setSavingMfa(false);
+    }
+  };
+
+  const handleConfirmChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingChange) return;
+
+    setChangeError('');
+    setConfirmingChange(true);
+    try {
+      await pendingChange.challenge.resolve(changeCode.trim());
+      pendingChange.onDone();
+      setPendingChange(null);
+    } catch (error) {
+      console.error('Error confirming account change:', error);
+      setChangeError(describeError(error));
+    } finally {
+      setConfirmingChange(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#0B1121] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0B1121] text-white px-4 py-12">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => navigate('/chats')}
+            className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+            title="Back to chats"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-400" />
+          </button>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-400 to-blue-400 bg-clip-text text-transparent">
+            Settings
+          </h1>
+        </div>
+
+        {/* Profile */}
+        <form
+          onSubmit={handleSaveProfile}
+          className="p-6 rounded-2xl bg-gray-800/50 border border-gray-700/50 space-y-6"
+        >
+          <h2 className="text-xl font-semibold">Profile</h2>
+
+          <div className="flex items-center space-x-4">
+            {profile?.avatarUrl ? (
+              <img
+                src={profile.avatarUrl}
+                alt=""
+                className="w-16 h-16 rounded-full object-cover"
+              />
+            ) : (
+              <div className="w-16 h-16 rounded-full bg-purple-500 flex items-center justify-center text-2xl">
+                {profile?.username.charAt(0).toUpperCase()}
+              </div>
+            )}
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp"
+              onChange={handleAvatarChange}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => avatarInputRef.current?.click()}
+              disabled={uploadingAvatar}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              {uploadingAvatar ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Camera className="w-4 h-4" />
+              )}
+              <span>Change avatar</span>
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={inputClassName}
+              required
+              minLength={3}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Bio</label>
+            <textarea
+              value={bio}
+              onChange={(e) => setBio(e.target.value)}
+              className={`${inputClassName} resize-none`}
+              placeholder="Tell people a little about yourself"
+              rows={3}
+              maxLength={BIO_MAX_LENGTH}
+            />
+            <div className="text-xs text-gray-500 text-right mt-1">
+              {bio.length}/{BIO_MAX_LENGTH}
+            </div>
+          </div>
+
+          <Status error={profileError} message={profileMessage} />
+
+          <button type="submit" disabled={savingProfile} className={buttonClassName}>
+            {savingProfile ? 'Saving...' : 'Save profile'}
+          </button>
+        </form>
+
+        {/* Connected accounts */}
+        <div className="p-6 rounded-2xl bg-gray-800/50 border border-gray-700/50 space-y-6">
+          <div>
+            <h2 className="text-xl font-semibold">Connected accounts</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              You can sign in with any account connected here.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            {OAUTH_PROVIDERS.map(provider => (
+              <div key={provider.id} className="flex items-center justify-between">
+                <span>{provider.label}</span>
+                {providerIds.includes(provider.id) ? (
+                  <span className="flex items-center space-x-1 text-sm text-green-400">
+                    <Check className="w-4 h-4" />
+                    <span>Connected</span>
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleLinkProvider(provider.id)}
+                    disabled={linkingProvider !== null}
+                    className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    {linkingProvider === provider.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      'Connect'
+                    )}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Status error={providersError} message="" />
+        </div>
+
+        {hasPassword && (
+          <>
+            {/* Email */}
+            <form
+              onSubmit={handleChangeEmail}
+              className="p-6 rounded-2xl bg-gray-800/50 border border-gray-700/50 space-y-6"
+            >
+              <div>
+                <h2 className="text-xl font-semibold">Email</h2>
+                <p className="text-sm text-gray-400 mt-1">
+                  Currently {user?.email}. The new address is used once you verify it.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">New email</label>
+                <input
+                  type="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Current password</label>
+                <input
+                  type="password"
+                  value={emailPassword}
+                  onChange={(e) => setEmailPassword(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+
+              <Status error={emailError} message={emailMessage} />
+
+              <button type="submit" disabled={savingEmail} className={buttonClassName}>
+                {savingEmail ? 'Please wait...' : 'Change email'}
+              </button>
+            </form>
+
+            {/* Password */}
+            <form
+              onSubmit={handleChangePassword}
+              className="p-6 rounded-2xl bg-gray-800/50 border border-gray-700/50 space-y-6"
+            >
+              <h2 className="text-xl font-semibold">Password</h2>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Current password</label>
+                <input
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">New password</label>
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className={inputClassName}
+                  required
+                  minLength={6}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Confirm new password</label>
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClassName}
+                  required
+                  minLength={6}
+                />
+              </div>
+
+              {keyPassphrase !== null && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Previous password or encryption passphrase
+                  </label>
+                  <input
+                    type="password"
+                    value={keyPassphrase}
+                    onChange={(e) => setKeyPassphrase(e.target.value)}
+                    className={inputClassName}
+                    required
+                  />
+                  <p className="text-xs text-gray-400 mt-2">
+                    Your messages stay readable once your encryption keys are locked with
+                    the new password instead.
+                  </p>
+                </div>
+              )}
+
+              <Status error={passwordError} message={passwordMessage} />
+
+              <button type="submit" disabled={savingPassword} className={buttonClassName}>
+                {savingPassword ? 'Please wait...' : 'Change password'}
+              </button>
+            </form>
+          </>
+        )}
+
+        {/* Two-factor authentication */}
+        <div className="p-6 rounded-2xl bg-gray-800/50 border border-gray-700/50 space-y-6">
+          <div>
+            <h2 className="text-xl font-semibold">Two-factor authentication</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Ask for a code from an authenticator app when signing in.
+            </p>
+          </div>
+
+          {enrollment ? (
+            <form onSubmit={handleFinishEnrollment} className="space-y-6">
+              <p className="text-sm text-gray-400">
+                Scan the code with your authenticator app, or enter the key by
+                hand, then enter the 6-digit code it shows.
+              </p>
+              <p className="text-sm text-gray-400">
+                You'll get backup codes for signing in without the app once it's
+                set up.
+              </p>
+              <div className="flex flex-col items-center space-y-3">
+                <QrCode text={enrollment.otpauthUrl} />
+                <code className="font-mono text-sm text-gray-300 break-all text-center">
+                  {formatSecretKey(enrollment.secretKey)}
+                </code>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Code</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value)}
+                  className={`${inputClassName} tracking-widest`}
+                  placeholder="123456"
+                  required
+                  maxLength={6}
+                />
+              </div>
+
+              <Status error={mfaError} message="" />
+
+              <div className="flex space-x-3">
+                <button type="submit" disabled={savingMfa} className={buttonClassName}>
+                  {savingMfa ? 'Please wait...' : 'Verify and turn on'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEnrollment(null);
+                    setMfaError('');
+                  }}
+                  className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : backupCodes ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-400">
+                Each of these backup codes signs you in once if you don't have
+                your authenticator app. Keep them somewhere as safe as the app,
+                they won't be shown again.
+              </p>
+              <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-300 text-center">
+                {backupCodes.map(code => <li key={code}>{code}</li>)}
+              </ul>
+              <button
+                type="button"
+                onClick={() => setBackupCodes(null)}
+                className={buttonClassName}
+              >
+                I've saved them
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleStartEnrollment} className="space-y-6">
+              {secondFactors.map(factor => (
+                <div key={factor.uid} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <ShieldCheck className="w-5 h-5 text-green-400" />
+                    <div>
+                      <div>{factor.displayName ?? 'Authenticator app'}</div>
+                      <div className="text-xs text-gray-500">
+                        Added {factor.enrolledAt.toLocaleDateString()}
+                      </div>
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleUnenroll(factor.uid)}
+                    disabled={savingMfa}
+                    className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors
+                      text-red-400 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+
+              {hasPassword && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Current password</label>
+                  <input
+                    type="password"
+                    value={mfaPassword}
+                    onChange={(e) => setMfaPassword(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+
+              <Status error={mfaError} message="" />
+
+              {secondFactors.length === 0 && (
+                <button
+                  type="submit"
+                  disabled={savingMfa || (hasPassword && !mfaPassword)}
+                  className={buttonClassName}
+                >
+                  {savingMfa ? 'Please wait...' : 'Set up authenticator app'}
+                </button>
+              )}
+            </form>
+          )}
+        </div>
+      </div>
+
+      {pendingChange && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <form
+            onSubmit={handleConfirmChange}
+            className="bg-gray-800 rounded-lg p-6 w-full max-w-md space-y-6"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold">Enter your code</h2>
+              <button
+                type="button"
+                onClick={() => setPendingChange(null)}
+                className="p-1 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-400">
+              Enter the 6-digit code from your authenticator app, or a backup
+              code, to confirm this change.
+            </p>
+
+            <input
+              type="text"
+              autoComplete="one-time-code"
+              value={changeCode}
+              onChange={(e) => setChangeCode(e.target.value)}
+              className={`${inputClassName} tracking-widest`}
+              placeholder="123456"
+              required
+              maxLength={11}
+              autoFocus
+            />
+
+            <Status error={changeError} message="" />
+
+            <button type="submit" disabled={confirmingChange} className={buttonClassName}>
+              {confirmingChange ? 'Please wait...' : 'Confirm'}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPage;
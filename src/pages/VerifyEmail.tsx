@@ -1,9 +1,7 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { auth, db } from '../config/firebase';
-import { sendEmailVerification, reload } from 'firebase/auth';
-import { doc, updateDoc } from 'firebase/firestore';
 import { Loader2, Mail, RefreshCw, LogOut } from 'lucide-react';
+import { useChatBackend } from '../hooks/useChatBackend';
 
 const VerifyEmail: React.FC = () => {
   const [error, setError] = useState('');
@@ -12,18 +10,15 @@ const VerifyEmail: React.FC = () => {
   const [countdown, setCountdown] = useState(60);
   const [canResend, setCanResend] = useState(true);
   const navigate = useNavigate();
+  const { auth } = useChatBackend();
 
-  const updateUserVerificationStatus = async (uid: string) => {
+  const updateUserVerificationStatus = useCallback(async (uid: string) => {
     try {
-      const userRef = doc(db, 'users', uid);
-      await updateDoc(userRef, {
-        emailVerified: true,
-        verifiedAt: new Date()
-      });
+      await auth.markEmailVerified(uid);
     } catch (error) {
       console.error('Error updating verification status:', error);
     }
-  };
+  }, [auth]);
 
   // Check verification status periodically
   useEffect(() => {
@@ -31,15 +26,14 @@ const VerifyEmail: React.FC = () => {
 
     const checkVerification = async () => {
       try {
-        const user = auth.currentUser;
+        // Refresh the user's token
+        const user = await auth.reloadUser();
         if (user) {
-          await reload(user); // Refresh the user's token
-          
           if (user.emailVerified) {
             clearInterval(interval);
             setMessage('Email verified! Redirecting...');
             
-            // Update the verification status in Firestore
+            // Update the verification status on the profile
             await updateUserVerificationStatus(user.uid);
             
             // Navigate to chats
@@ -63,7 +57,7 @@ const VerifyEmail: React.FC = () => {
         clearInterval(interval);
       }
     };
-  }, [navigate]);
+  }, [navigate, auth, updateUserVerificationStatus]);
 
   // Auth state listener
   useEffect(() => {
@@ -77,7 +71,7 @@ const VerifyEmail: React.FC = () => {
     });
 
     return () => unsubscribe();
-  }, [navigate]);
+  }, [navigate, auth, updateUserVerificationStatus]);
 
   // Countdown timer for resending verification email
   useEffect(() => {
@@ -98,9 +92,9 @@ const VerifyEmail: React.FC = () => {
   const handleResendVerification = async () => {
     try {
       setLoading(true);
-      const user = auth.currentUser;
+      const user = auth.currentUser();
       if (user && !user.emailVerified) {
-        await sendEmailVerification(user);
+        await auth.sendVerificationEmail();
         setMessage('Verification email resent! Please check your inbox.');
         setError('');
         setCanResend(false);
@@ -115,9 +109,8 @@ const VerifyEmail: React.FC = () => {
   const handleManualRefresh = async () => {
     try {
       setLoading(true);
-      const user = auth.currentUser;
+      const user = await auth.reloadUser();
       if (user) {
-        await reload(user);
         if (user.emailVerified) {
           setMessage('Email verified! Redirecting...');
           // Update verification status in Firestore
@@ -156,7 +149,7 @@ const VerifyEmail: React.FC = () => {
           <p className="text-gray-300">
             We've sent a verification link to{' '}
             <span className="font-semibold text-purple-400">
-              {auth.currentUser?.email}
+              {auth.currentUser()?.email}
             </span>
           </p>
         </div>
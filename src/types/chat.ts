@@ -1,24 +1,130 @@
-export interface Message {
+// Domain types shared by the pages and every ChatBackend implementation.
+// Times are plain Dates; the Firestore converters translate Timestamps.
+
+export interface EncryptedPayload {
+    ciphertext: string;
+    iv: string;
+    keyVersion: number;
+  }
+
+  export interface Attachment {
+    name: string;
+    type: string;
+    size: number;
+    // Storage path of the encrypted file
+    path: string;
+    iv: string;
+    keyVersion: number;
+  }
+
+  export interface MessageEdit {
+    content?: string;
+    encrypted?: EncryptedPayload;
+    editedAt: Date;
+  }
+
+  export interface Message {
+    id: string;
+    content?: string;
+    encrypted?: EncryptedPayload;
+    senderId: string;
+    senderName: string;
+    // Null until the server has assigned it
+    timestamp: Date | null;
+    groupId: string;
+    createdAt?: string;
+    editedAt?: Date;
+    deletedAt?: Date;
+    edits?: MessageEdit[];
+    parentId?: string;
+    replyCount?: number;
+    lastReplyAt?: Date;
+    reactions?: Record<string, string[]>;
+    attachments?: Attachment[];
+    // Uids of mentioned users, kept in plaintext so they can be notified
+    mentions?: string[];
+    // Set while the write hasn't reached the server
+    pending?: boolean;
+  }
+
+  // The stored form of a message's text, encrypted or (legacy) plain
+  export type MessageBody = Pick<Message, 'content' | 'encrypted'>;
+
+  // A message as composed, before the server has seen it. The id is chosen
+  // up front so sending the same draft twice can't create two messages.
+  export interface MessageDraft extends MessageBody {
     id: string;
-    content: string;
     senderId: string;
     senderName: string;
-    timestamp: Date;
     groupId: string;
+    parentId?: string;
+    attachments?: Attachment[];
+    mentions?: string[];
+    createdAt: string;
   }
   
+  export type GroupRole = 'owner' | 'admin' | 'member';
+
   export interface Group {
     id: string;
+    type: 'group' | 'dm';
     name: string;
     description: string;
     createdBy: string;
     createdAt: Date;
     members: string[];
-    inviteCode?: string;
+    keyVersion?: number;
+    lastMessageAt?: Date;
+    // Usernames of DM participants, keyed by uid
+    memberNames?: Record<string, string>;
+    roles?: Record<string, GroupRole>;
+  }
+
+  export interface InviteOptions {
+    expiresInMs: number | null;
+    maxUses: number | null;
+  }
+
+  export interface Invite {
+    code: string;
+    groupId: string;
+    createdBy: string;
+    expiresAt: Date | null;
+    maxUses: number | null;
+    uses: number;
+    revokedAt?: Date;
   }
   
+  // An entry in the user's inbox of messages that mention them
+  export interface Mention {
+    id: string;
+    messageId: string;
+    groupId: string;
+    parentId: string | null;
+    senderId: string;
+    senderName: string;
+    createdAt: Date;
+    readAt: Date | null;
+  }
+
+  // When a member last read a group, in milliseconds
+  export interface ReadReceipt {
+    uid: string;
+    username: string;
+    lastReadAt: number;
+  }
+
+  export interface TypingEntry {
+    uid: string;
+    username: string;
+    // Milliseconds
+    updatedAt: number;
+  }
+
   export interface UserData {
     username: string;
     email: string;
     emailVerified: boolean;
-  }
\ No newline at end of file
+    avatarUrl?: string;
+    bio?: string;
+  }
@@ -7,8 +7,31 @@ export interface User {
     updatedAt: Date;
     lastLoginAt: Date;
     verifiedAt?: Date;
+    avatarUrl?: string;
+    bio?: string;
+    publicKey?: JsonWebKey;
+    notificationSettings?: NotificationSettings;
+  }
+
+  export type NotificationLevel = 'all' | 'mentions' | 'muted';
+
+  export interface NotificationSettings {
+    // Per-group level, groups without an entry notify for all messages
+    groups?: Record<string, NotificationLevel>;
+    doNotDisturb?: boolean;
   }
   
+  export interface WrappedPrivateKey {
+    data: string;
+    iv: string;
+    salt: string;
+  }
+
+  // users/{uid}/private/keys, readable only by the user
+  export interface UserPrivateKeys {
+    encryptedPrivateKey: WrappedPrivateKey;
+  }
+
   export interface Username {
     uid: string;
   }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { Attachment } from '../types/chat';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+const ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'type'>) =>
+  attachment.type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const validateAttachment = (file: File) => {
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    throw new AttachmentError(`${file.name}: this file type isn't supported`);
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new AttachmentError(
+      `${file.name}: files can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+    );
+  }
+};
@@ -0,0 +1,15 @@
+import { AuthUser, OAuthProviderId } from '../backend/chatBackend';
+
+export const OAUTH_PROVIDERS: { id: OAuthProviderId; label: string }[] = [
+  { id: 'google.com', label: 'Google' },
+  { id: 'github.com', label: 'GitHub' }
+];
+
+export const hasProvider = (user: AuthUser, providerId: string) =>
+  user.providerData.some(info => info.providerId === providerId);
+
+// Firebase sets emailVerified for Google sign-ins, whose addresses Google
+// vouches for, but not for GitHub, which doesn't say whether the address it
+// returns was verified. Those go through the verification email like
+// password accounts. Matches email_verified in the ID token the rules see.
+export const hasVerifiedEmail = (user: AuthUser) => user.emailVerified;
@@ -0,0 +1,22 @@
+import { formatFileSize } from './attachments';
+
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+const ALLOWED_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export class AvatarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvatarError';
+  }
+}
+
+// Mirrored by the avatar rules in storage.rules
+export const validateAvatar = (file: File) => {
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    throw new AvatarError('Avatars have to be PNG, JPEG, GIF or WebP images');
+  }
+  if (file.size > MAX_AVATAR_SIZE) {
+    throw new AvatarError(`Avatars can be at most ${formatFileSize(MAX_AVATAR_SIZE)}`);
+  }
+};
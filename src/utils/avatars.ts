@@ -0,0 +1,13 @@
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage } from '../config/firebase';
+import { validateAvatar } from './avatarFiles';
+
+// Avatars are shown to everyone, so unlike attachments they aren't
+// encrypted. Each upload replaces the previous one.
+export const uploadAvatar = async (uid: string, file: File) => {
+  validateAvatar(file);
+
+  const avatarRef = ref(storage, `avatars/${uid}/avatar`);
+  await uploadBytes(avatarRef, file, { contentType: file.type });
+  return getDownloadURL(avatarRef);
+};
@@ -0,0 +1,89 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  deleteDoc,
+  serverTimestamp,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { InvalidBackupCodeError } from '../backend/chatBackend';
+import { decryptWithPassphrase, encryptWithPassphrase, PassphraseEncryptedText } from './crypto';
+import { generateBackupCodes, generateTotp, normalizeBackupCode, TotpParameters } from './totp';
+
+// Firebase has no backup codes for authenticator apps, so each code unlocks
+// a copy of the app's key instead: backupCodes/{SHA-256 of the code} holds
+// the key encrypted with the code, and redeeming one works out the app's
+// current code from it. Only the account deletes its codes, so a code is
+// single-use as long as the app deletes it after signing in, but anyone who
+// gets hold of one has the authenticator key. They need keeping as safe as
+// the app itself.
+
+interface BackupCodeData {
+  uid: string;
+  // The second factor whose key this is
+  factorUid: string;
+  encrypted: PassphraseEncryptedText;
+}
+
+const backupCodesCollection = collection(db, 'backupCodes');
+
+const hashCode = async (code: string) => {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(normalizeBackupCode(code))
+  );
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const deleteBackupCodes = async (uid: string, factorUid?: string) => {
+  const snapshot = await getDocs(factorUid
+    ? query(backupCodesCollection, where('uid', '==', uid), where('factorUid', '==', factorUid))
+    : query(backupCodesCollection, where('uid', '==', uid)));
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(codeDoc => batch.delete(codeDoc.ref));
+  await batch.commit();
+};
+
+// Replaces the account's codes, returned for showing once
+export const createBackupCodes = async (uid: string, factorUid: string, totp: TotpParameters) => {
+  await deleteBackupCodes(uid);
+
+  const codes = generateBackupCodes();
+  const batch = writeBatch(db);
+  for (const code of codes) {
+    batch.set(doc(backupCodesCollection, await hashCode(code)), {
+      uid,
+      factorUid,
+      encrypted: await encryptWithPassphrase(normalizeBackupCode(code), JSON.stringify(totp)),
+      createdAt: serverTimestamp()
+    });
+  }
+  await batch.commit();
+  return codes;
+};
+
+// Works while signed out, for finishing a sign-in. `useUp` deletes the code
+// once the sign-in it was for went through.
+export const redeemBackupCode = async (code: string) => {
+  const codeRef = doc(backupCodesCollection, await hashCode(code));
+  const codeSnap = await getDoc(codeRef);
+  if (!codeSnap.exists()) {
+    throw new InvalidBackupCodeError();
+  }
+
+  const { factorUid, encrypted } = codeSnap.data() as BackupCodeData;
+  const totp: TotpParameters = JSON.parse(
+    await decryptWithPassphrase(normalizeBackupCode(code), encrypted)
+  );
+
+  return {
+    factorUid,
+    totpCode: await generateTotp(totp),
+    useUp: () => deleteDoc(codeRef)
+  };
+};
@@ -0,0 +1,187 @@
+// WebCrypto helpers for end-to-end encrypted messages.
+//
+// Each user has an RSA-OAEP key pair. The public key is published on the
+// user's profile, the private key is stored wrapped with a key derived from
+// the user's passphrase. Each group has an AES-GCM key which is wrapped
+// separately for every member's public key.
+
+import { WrappedPrivateKey } from '../types/user';
+
+const RSA_PARAMS: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256'
+};
+
+const RSA_IMPORT_PARAMS: RsaHashedImportParams = {
+  name: 'RSA-OAEP',
+  hash: 'SHA-256'
+};
+
+const PBKDF2_ITERATIONS = 310000;
+
+export interface EncryptedText {
+  ciphertext: string;
+  iv: string;
+}
+
+export interface PassphraseEncryptedText extends EncryptedText {
+  salt: string;
+}
+
+export const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const deriveWrappingKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  usages: KeyUsage[] = ['wrapKey', 'unwrapKey']
+) => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    usages
+  );
+};
+
+export const generateUserKeyPair = () =>
+  crypto.subtle.generateKey(RSA_PARAMS, true, ['wrapKey', 'unwrapKey']);
+
+export const exportPublicKey = (key: CryptoKey) =>
+  crypto.subtle.exportKey('jwk', key);
+
+export const importPublicKey = (jwk: JsonWebKey) =>
+  crypto.subtle.importKey('jwk', jwk, RSA_IMPORT_PARAMS, false, ['wrapKey']);
+
+export const wrapPrivateKey = async (
+  privateKey: CryptoKey,
+  passphrase: string
+): Promise<WrappedPrivateKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt);
+  const data = await crypto.subtle.wrapKey('pkcs8', privateKey, wrappingKey, {
+    name: 'AES-GCM',
+    iv
+  });
+
+  return { data: toBase64(data), iv: toBase64(iv), salt: toBase64(salt) };
+};
+
+export const unwrapPrivateKey = async (
+  wrapped: WrappedPrivateKey,
+  passphrase: string,
+  extractable = false
+): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(wrapped.salt));
+  return crypto.subtle.unwrapKey(
+    'pkcs8',
+    fromBase64(wrapped.data),
+    wrappingKey,
+    { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+    RSA_IMPORT_PARAMS,
+    extractable,
+    ['unwrapKey']
+  );
+};
+
+export const generateGroupKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt'
+  ]);
+
+export const wrapGroupKey = async (groupKey: CryptoKey, publicKey: CryptoKey) => {
+  const wrapped = await crypto.subtle.wrapKey('raw', groupKey, publicKey, {
+    name: 'RSA-OAEP'
+  });
+  return toBase64(wrapped);
+};
+
+export const unwrapGroupKey = (wrapped: string, privateKey: CryptoKey, extractable = false) =>
+  crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrapped),
+    privateKey,
+    { name: 'RSA-OAEP' },
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+
+export const encryptText = async (
+  key: CryptoKey,
+  plaintext: string
+): Promise<EncryptedText> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { ciphertext: toBase64(ciphertext), iv: toBase64(iv) };
+};
+
+export const decryptText = async (
+  key: CryptoKey,
+  encrypted: EncryptedText
+): Promise<string> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+    key,
+    fromBase64(encrypted.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+};
+
+export const encryptWithPassphrase = async (
+  passphrase: string,
+  plaintext: string
+): Promise<PassphraseEncryptedText> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveWrappingKey(passphrase, salt, ['encrypt', 'decrypt']);
+  return { ...await encryptText(key, plaintext), salt: toBase64(salt) };
+};
+
+export const decryptWithPassphrase = async (
+  passphrase: string,
+  encrypted: PassphraseEncryptedText
+) => {
+  const key = await deriveWrappingKey(passphrase, fromBase64(encrypted.salt), ['encrypt', 'decrypt']);
+  return decryptText(key, encrypted);
+};
+
+export const encryptBytes = async (key: CryptoKey, data: ArrayBuffer) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  return { ciphertext, iv: toBase64(iv) };
+};
+
+export const decryptBytes = (key: CryptoKey, ciphertext: ArrayBuffer, iv: string) =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, ciphertext);
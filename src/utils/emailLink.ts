@@ -0,0 +1,14 @@
+// Remembers the address a sign-in link was sent to, so opening the link on
+// the same device doesn't ask for it again. On another device it isn't
+// there, and the landing page asks instead.
+const EMAIL_KEY = 'emailForSignIn';
+
+export const saveEmailForSignIn = (email: string) => {
+  localStorage.setItem(EMAIL_KEY, email);
+};
+
+export const loadEmailForSignIn = () => localStorage.getItem(EMAIL_KEY);
+
+export const clearEmailForSignIn = () => {
+  localStorage.removeItem(EMAIL_KEY);
+};
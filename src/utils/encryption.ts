@@ -0,0 +1,313 @@
+import {
+  deleteField,
+  doc,
+  FirestoreError,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import {
+  generateUserKeyPair,
+  exportPublicKey,
+  importPublicKey,
+  wrapPrivateKey,
+  unwrapPrivateKey,
+  generateGroupKey,
+  wrapGroupKey,
+  unwrapGroupKey,
+  encryptText,
+  decryptText,
+  encryptBytes,
+  decryptBytes
+} from './crypto';
+import { savePrivateKey, loadPrivateKey, clearPrivateKey } from './keyStore';
+import { EncryptedPayload } from '../types/chat';
+import { UserPrivateKeys, WrappedPrivateKey } from '../types/user';
+
+// Unwrapped group keys, keyed by `${groupId}:${version}`
+const groupKeyCache = new Map<string, Promise<CryptoKey>>();
+
+export class MissingKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MissingKeyError';
+  }
+}
+
+// Only the user can read this doc, unlike their profile
+const privateKeysRef = (uid: string) => doc(db, 'users', uid, 'private', 'keys');
+
+// Older accounts kept the wrapped key on their public profile
+const loadWrappedPrivateKey = async (uid: string) => {
+  const keysSnap = await getDoc(privateKeysRef(uid));
+  const wrapped = (keysSnap.data() as UserPrivateKeys | undefined)?.encryptedPrivateKey;
+  if (wrapped) return { wrapped, onProfile: false };
+
+  const userSnap = await getDoc(doc(db, 'users', uid));
+  const legacy = userSnap.data()?.encryptedPrivateKey as WrappedPrivateKey | undefined;
+  return legacy ? { wrapped: legacy, onProfile: true } : null;
+};
+
+// Stores the wrapped private key, removing any copy left on the profile.
+// `profileChanges` are written in the same batch.
+export const saveWrappedPrivateKey = async (
+  uid: string,
+  encryptedPrivateKey: WrappedPrivateKey,
+  profileChanges: Record<string, unknown> = {}
+) => {
+  const batch = writeBatch(db);
+  batch.set(privateKeysRef(uid), { encryptedPrivateKey });
+  batch.update(doc(db, 'users', uid), {
+    ...profileChanges,
+    encryptedPrivateKey: deleteField(),
+    updatedAt: new Date()
+  });
+  await batch.commit();
+};
+
+// Unlock the user's private key with their passphrase and keep it on this
+// device. Users without a key pair yet (e.g. accounts created before
+// encryption was added) get one generated and published.
+export const unlockKeys = async (uid: string, passphrase: string) => {
+  const stored = await loadWrappedPrivateKey(uid);
+
+  if (stored) {
+    const privateKey = await unwrapPrivateKey(stored.wrapped, passphrase);
+    await savePrivateKey(uid, privateKey);
+
+    // The key is unlocked either way, so don't fail on moving it
+    if (stored.onProfile) {
+      try {
+        await saveWrappedPrivateKey(uid, stored.wrapped);
+      } catch (error) {
+        console.error('Error moving private key off the profile:', error);
+      }
+    }
+    return;
+  }
+
+  const keyPair = await generateUserKeyPair();
+  const encryptedPrivateKey = await wrapPrivateKey(keyPair.privateKey, passphrase);
+  await saveWrappedPrivateKey(uid, encryptedPrivateKey, {
+    publicKey: await exportPublicKey(keyPair.publicKey)
+  });
+
+  // Keep a non-extractable copy on this device
+  await savePrivateKey(uid, await unwrapPrivateKey(encryptedPrivateKey, passphrase));
+};
+
+// Wrap the user's private key with a new passphrase, e.g. before changing
+// the password. Returns the new wrapped key without saving it, so it can be
+// stored once the password change has gone through. Null if the user has
+// no key pair yet.
+export const rewrapPrivateKey = async (
+  uid: string,
+  oldPassphrase: string,
+  newPassphrase: string
+) => {
+  const stored = await loadWrappedPrivateKey(uid);
+  if (!stored) return null;
+
+  // Extractable only for as long as it takes to wrap it again
+  const privateKey = await unwrapPrivateKey(stored.wrapped, oldPassphrase, true);
+  return wrapPrivateKey(privateKey, newPassphrase);
+};
+
+export const hasUnlockedKeys = async (uid: string) =>
+  (await loadPrivateKey(uid)) !== null;
+
+export const lockKeys = async (uid: string) => {
+  groupKeyCache.clear();
+  await clearPrivateKey(uid);
+};
+
+// Wrap a group key for each of the members that has published a public key
+const wrapForMembers = async (groupKey: CryptoKey, memberIds: string[]) => {
+  const wrappedKeys: Record<string, string> = {};
+
+  await Promise.all(
+    memberIds.map(async (memberId) => {
+      const memberSnap = await getDoc(doc(db, 'users', memberId));
+      const publicKey = memberSnap.data()?.publicKey as JsonWebKey | undefined;
+      if (!publicKey) return;
+      wrappedKeys[memberId] = await wrapGroupKey(
+        groupKey,
+        await importPublicKey(publicKey)
+      );
+    })
+  );
+
+  return wrappedKeys;
+};
+
+// Create a new group key, wrap it for every member that has published a
+// public key, and make it the group's current key version. Members without
+// one get it shared later, see shareGroupKey.
+export const rotateGroupKey = async (
+  groupId: string,
+  memberIds: string[],
+  rotatedBy: string
+) => {
+  const groupKey = await generateGroupKey();
+  const wrappedKeys = await wrapForMembers(groupKey, memberIds);
+
+  const groupRef = doc(db, 'groups', groupId);
+  return runTransaction(db, async (transaction) => {
+    const groupSnap = await transaction.get(groupRef);
+    const version = (groupSnap.data()?.keyVersion ?? 0) + 1;
+
+    transaction.set(doc(db, 'groups', groupId, 'keys', String(version)), {
+      version,
+      wrappedKeys,
+      rotatedBy,
+      createdAt: serverTimestamp()
+    });
+    transaction.update(groupRef, { keyVersion: version });
+
+    return version;
+  });
+};
+
+interface GroupKeyVersion {
+  rotatedBy: string;
+  wrappedKeys: Record<string, string>;
+}
+
+// Wrap an existing key version for members it wasn't shared with, e.g.
+// because they had no public key yet when it was rotated. Only ever adds
+// wrapped keys, so members doing this at the same time don't clash.
+const shareGroupKey = async (
+  groupId: string,
+  keyVersion: number,
+  uid: string,
+  key: GroupKeyVersion,
+  memberIds: string[]
+) => {
+  const privateKey = await loadPrivateKey(uid);
+  if (!privateKey) return;
+
+  const groupKey = await unwrapGroupKey(key.wrappedKeys[uid], privateKey, true);
+  const added = await wrapForMembers(groupKey, memberIds);
+  if (Object.keys(added).length === 0) return;
+
+  const keyRef = doc(db, 'groups', groupId, 'keys', String(keyVersion));
+  await runTransaction(db, async (transaction) => {
+    const current = (await transaction.get(keyRef)).data() as GroupKeyVersion | undefined;
+    const changes = Object.fromEntries(Object.entries(added)
+      .filter(([memberId]) => current && !(memberId in current.wrappedKeys))
+      .map(([memberId, wrapped]) => [`wrappedKeys.${memberId}`, wrapped]));
+    if (Object.keys(changes).length > 0) {
+      transaction.update(keyRef, changes);
+    }
+  });
+};
+
+// The key version to encrypt with. Members can't rotate the key for a group
+// they've left, so a version rotated by or shared with someone who is no
+// longer a member is replaced by the next member to send, which the rules
+// insist on. So is one the caller can't read. Members the version was never
+// shared with get it shared now.
+export const prepareGroupKey = async (
+  groupId: string,
+  memberIds: string[],
+  keyVersion: number | undefined,
+  uid: string
+) => {
+  if (keyVersion === undefined) return rotateGroupKey(groupId, memberIds, uid);
+
+  let key: GroupKeyVersion | undefined;
+  try {
+    const keySnap = await getDoc(doc(db, 'groups', groupId, 'keys', String(keyVersion)));
+    key = keySnap.data() as GroupKeyVersion | undefined;
+  } catch (error) {
+    // Only the members it was shared with can read a version
+    if (!(error instanceof FirestoreError && error.code === 'permission-denied')) throw error;
+  }
+
+  const recipients = Object.keys(key?.wrappedKeys ?? {});
+  if (!key
+    || !recipients.includes(uid)
+    || !memberIds.includes(key.rotatedBy)
+    || recipients.some(recipient => !memberIds.includes(recipient))) {
+    return rotateGroupKey(groupId, memberIds, uid);
+  }
+
+  const missing = memberIds.filter(memberId => !recipients.includes(memberId));
+  if (missing.length > 0) {
+    // The message can still go out, they get the key with the next one
+    try {
+      await shareGroupKey(groupId, keyVersion, uid, key, missing);
+    } catch (error) {
+      console.error('Error sharing the group key:', error);
+    }
+  }
+  return keyVersion;
+};
+
+const getGroupKey = (groupId: string, version: number, uid: string) => {
+  const cacheKey = `${groupId}:${version}`;
+  const cached = groupKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const privateKey = await loadPrivateKey(uid);
+    if (!privateKey) {
+      throw new MissingKeyError('Your encryption keys are locked on this device');
+    }
+
+    const keySnap = await getDoc(doc(db, 'groups', groupId, 'keys', String(version)));
+    const wrapped = keySnap.data()?.wrappedKeys?.[uid] as string | undefined;
+    if (!wrapped) {
+      throw new MissingKeyError('No group key has been shared with you for this message');
+    }
+
+    return unwrapGroupKey(wrapped, privateKey);
+  })();
+
+  groupKeyCache.set(cacheKey, pending);
+  // Don't cache failures, the key may be unlocked or shared later
+  pending.catch(() => groupKeyCache.delete(cacheKey));
+  return pending;
+};
+
+export const encryptForGroup = async (
+  groupId: string,
+  keyVersion: number,
+  uid: string,
+  plaintext: string
+): Promise<EncryptedPayload> => {
+  const key = await getGroupKey(groupId, keyVersion, uid);
+  return { ...(await encryptText(key, plaintext)), keyVersion };
+};
+
+export const decryptForGroup = async (
+  groupId: string,
+  uid: string,
+  payload: EncryptedPayload
+) => {
+  const key = await getGroupKey(groupId, payload.keyVersion, uid);
+  return decryptText(key, payload);
+};
+
+export const encryptBytesForGroup = async (
+  groupId: string,
+  keyVersion: number,
+  uid: string,
+  data: ArrayBuffer
+) => {
+  const key = await getGroupKey(groupId, keyVersion, uid);
+  return encryptBytes(key, data);
+};
+
+export const decryptBytesForGroup = async (
+  groupId: string,
+  keyVersion: number,
+  uid: string,
+  ciphertext: ArrayBuffer,
+  iv: string
+) => {
+  const key = await getGroupKey(groupId, keyVersion, uid);
+  return decryptBytes(key, ciphertext, iv);
+};
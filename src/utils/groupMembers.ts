@@ -0,0 +1,122 @@
+import {
+  doc,
+  runTransaction,
+  deleteField,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { rotateGroupKey } from './encryption';
+import {
+  canRemoveMember,
+  getRole,
+  GroupPermissionError,
+  GroupRoles,
+  ROLE_RANK
+} from './groupRoles';
+import { GroupRole } from '../types/chat';
+
+interface GroupMembership extends GroupRoles {
+  members: string[];
+}
+
+const assertMember = (group: GroupMembership, uid: string) => {
+  if (!group.members.includes(uid)) {
+    throw new GroupPermissionError('You are not a member of this group');
+  }
+};
+
+const assertRole = (group: GroupMembership, uid: string, role: GroupRole) => {
+  assertMember(group, uid);
+  if (ROLE_RANK[getRole(group, uid)] < ROLE_RANK[role]) {
+    throw new GroupPermissionError(`Only a group ${role} can do that`);
+  }
+};
+
+// Every role change re-reads the group inside a transaction so checks are
+// made against the current roles, not whatever the UI last rendered.
+const updateGroup = async (
+  groupId: string,
+  update: (group: GroupMembership) => DocumentData
+) => {
+  const groupRef = doc(db, 'groups', groupId);
+  return runTransaction(db, async (transaction) => {
+    const groupSnap = await transaction.get(groupRef);
+    if (!groupSnap.exists()) {
+      throw new GroupPermissionError('Group not found');
+    }
+    if (groupSnap.data().type === 'dm') {
+      throw new GroupPermissionError('Direct messages have no member roles');
+    }
+
+    const changes = update(groupSnap.data() as GroupMembership);
+    transaction.update(groupRef, changes);
+    return changes;
+  });
+};
+
+export const promoteMember = (groupId: string, actorUid: string, targetUid: string) =>
+  updateGroup(groupId, (group) => {
+    assertRole(group, actorUid, 'owner');
+    assertMember(group, targetUid);
+    if (getRole(group, targetUid) !== 'member') {
+      throw new GroupPermissionError('Only members can be promoted');
+    }
+    return { [`roles.${targetUid}`]: 'admin' };
+  });
+
+export const demoteMember = (groupId: string, actorUid: string, targetUid: string) =>
+  updateGroup(groupId, (group) => {
+    assertRole(group, actorUid, 'owner');
+    assertMember(group, targetUid);
+    if (getRole(group, targetUid) !== 'admin') {
+      throw new GroupPermissionError('Only admins can be demoted');
+    }
+    return { [`roles.${targetUid}`]: 'member' };
+  });
+
+// Removes a member and rotates the group key so they can't read anything
+// sent after they left
+export const removeMember = async (groupId: string, actorUid: string, targetUid: string) => {
+  let remaining: string[] = [];
+
+  await updateGroup(groupId, (group) => {
+    assertRole(group, actorUid, 'admin');
+    assertMember(group, targetUid);
+    if (!canRemoveMember(group, actorUid, targetUid)) {
+      throw new GroupPermissionError('You can only remove members with a lower role');
+    }
+
+    remaining = group.members.filter(uid => uid !== targetUid);
+    return {
+      members: remaining,
+      [`roles.${targetUid}`]: deleteField()
+    };
+  });
+
+  await rotateGroupKey(groupId, remaining, actorUid);
+};
+
+// Leaves a group. If the owner leaves, ownership passes to an admin, or to
+// the longest-standing member if there are no admins. The key isn't rotated
+// here, a key the leaver generated would be theirs too; the next member to
+// send rotates it instead, see prepareGroupKey.
+export const leaveGroup = async (groupId: string, uid: string) => {
+  await updateGroup(groupId, (group) => {
+    assertMember(group, uid);
+
+    const remaining = group.members.filter(member => member !== uid);
+    const changes: DocumentData = {
+      members: remaining,
+      [`roles.${uid}`]: deleteField()
+    };
+
+    if (getRole(group, uid) === 'owner' && remaining.length > 0) {
+      const newOwner = remaining.find(member =>
+        getRole(group, member) === 'admin'
+      ) ?? remaining[0];
+      changes[`roles.${newOwner}`] = 'owner';
+    }
+
+    return changes;
+  });
+};
@@ -0,0 +1,37 @@
+import { GroupRole } from '../types/chat';
+
+// Role checks shared by both backends and the UI. Kept free of Firebase so
+// the in-memory backend doesn't load it.
+
+export const ROLE_RANK: Record<GroupRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2
+};
+
+export interface GroupRoles {
+  createdBy: string;
+  roles?: Record<string, GroupRole>;
+}
+
+export class GroupPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GroupPermissionError';
+  }
+}
+
+// Groups created before roles existed only know their creator
+export const getRole = (group: GroupRoles, uid: string): GroupRole =>
+  group.roles?.[uid] ?? (uid === group.createdBy ? 'owner' : 'member');
+
+export const isAdmin = (group: GroupRoles, uid: string) =>
+  ROLE_RANK[getRole(group, uid)] >= ROLE_RANK.admin;
+
+// Admins can remove members, the owner can remove anyone else
+export const canRemoveMember = (
+  group: GroupRoles,
+  actorUid: string,
+  targetUid: string
+) => isAdmin(group, actorUid)
+  && ROLE_RANK[getRole(group, targetUid)] < ROLE_RANK[getRole(group, actorUid)];
@@ -0,0 +1,155 @@
+// Lightweight syntax highlighting for code blocks. It only tells comments,
+// strings, numbers and keywords apart, which covers what people paste in chat
+// without shipping a full grammar for every language.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_LIKE: LanguageSpec = {
+  keywords: words(
+    'break case catch class const continue default delete do else enum export extends '
+    + 'false finally for function if import in instanceof interface let new null return '
+    + 'static super switch this throw true try type typeof undefined var void while yield '
+    + 'async await of from as implements private protected public readonly abstract '
+    + 'int long float double char bool boolean string struct namespace using fn mut pub '
+    + 'impl trait match package func go defer chan map range nil'
+  ),
+  lineComment: '//',
+  blockComment: ['/*', '*/']
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  python: {
+    keywords: words(
+      'and as assert async await break class continue def del elif else except False '
+      + 'finally for from global if import in is lambda None nonlocal not or pass raise '
+      + 'return True try while with yield self'
+    ),
+    lineComment: '#'
+  },
+  shell: {
+    keywords: words(
+      'if then else elif fi for while do done case esac in function return export local '
+      + 'echo cd sudo'
+    ),
+    lineComment: '#'
+  },
+  sql: {
+    keywords: words(
+      'select from where insert into values update set delete create table drop alter '
+      + 'join left right inner outer on group by order having limit and or not null as '
+      + 'distinct count primary key SELECT FROM WHERE INSERT INTO VALUES UPDATE SET DELETE '
+      + 'CREATE TABLE DROP ALTER JOIN LEFT RIGHT INNER OUTER ON GROUP BY ORDER HAVING LIMIT '
+      + 'AND OR NOT NULL AS DISTINCT COUNT PRIMARY KEY'
+    ),
+    lineComment: '--',
+    blockComment: ['/*', '*/']
+  },
+  json: {
+    keywords: words('true false null')
+  },
+  css: {
+    keywords: words('important media import from to'),
+    blockComment: ['/*', '*/']
+  },
+  html: {
+    keywords: new Set(),
+    blockComment: ['<!--', '-->']
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  xml: 'html',
+  scss: 'css'
+};
+
+const getLanguage = (language: string) =>
+  LANGUAGES[ALIASES[language] ?? language] ?? C_LIKE;
+
+const NUMBER = /(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/iy;
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+export const highlightCode = (code: string, language: string): Token[] => {
+  const spec = getLanguage(language);
+  const tokens: Token[] = [];
+
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let position = 0;
+  while (position < code.length) {
+    const char = code[position];
+
+    if (spec.lineComment && code.startsWith(spec.lineComment, position)) {
+      const end = code.indexOf('\n', position);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(position, stop));
+      position = stop;
+      continue;
+    }
+
+    if (spec.blockComment && code.startsWith(spec.blockComment[0], position)) {
+      const end = code.indexOf(spec.blockComment[1], position + spec.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + spec.blockComment[1].length;
+      push('comment', code.slice(position, stop));
+      position = stop;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      let end = position + 1;
+      while (end < code.length && code[end] !== char) {
+        // Only template literals span lines
+        if (code[end] === '\n' && char !== '`') break;
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      const stop = code[end] === char ? end + 1 : end;
+      push('string', code.slice(position, stop));
+      position = stop;
+      continue;
+    }
+
+    WORD.lastIndex = position;
+    const word = WORD.exec(code);
+    if (word) {
+      push(spec.keywords.has(word[0]) ? 'keyword' : 'plain', word[0]);
+      position += word[0].length;
+      continue;
+    }
+
+    NUMBER.lastIndex = position;
+    const number = NUMBER.exec(code);
+    if (number) {
+      push('number', number[0]);
+      position += number[0].length;
+      continue;
+    }
+
+    push('plain', char);
+    position += 1;
+  }
+
+  return tokens;
+};
@@ -0,0 +1,22 @@
+import { Invite } from '../types/chat';
+
+// No 0/O or 1/I, codes get read out and typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export class InviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+export const generateCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+};
+
+export const isInviteActive = (invite: Invite, now = Date.now()) =>
+  !invite.revokedAt
+  && (!invite.expiresAt || invite.expiresAt.getTime() > now)
+  && (invite.maxUses === null || invite.uses < invite.maxUses);
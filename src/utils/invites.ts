@@ -0,0 +1,156 @@
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  query,
+  where,
+  increment,
+  runTransaction,
+  serverTimestamp,
+  FirestoreError,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { rotateGroupKey } from './encryption';
+import { isAdmin, GroupPermissionError } from './groupRoles';
+import { generateCode, InviteError } from './inviteCodes';
+import { GroupRole, InviteOptions } from '../types/chat';
+
+interface InviteData {
+  groupId: string;
+  createdBy: string;
+  expiresAt: Timestamp | null;
+  maxUses: number | null;
+  uses: number;
+  revokedAt?: Timestamp;
+}
+
+interface GroupData {
+  createdBy: string;
+  members: string[];
+  roles?: Record<string, GroupRole>;
+}
+
+export const invitesCollection = collection(db, 'invites');
+
+export const groupInvitesQuery = (groupId: string) =>
+  query(invitesCollection, where('groupId', '==', groupId));
+
+// Invites are stored as invites/{code} so joining is a single lookup
+export const createInvite = async (
+  groupId: string,
+  actorUid: string,
+  { expiresInMs, maxUses }: InviteOptions
+) => {
+  const groupRef = doc(db, 'groups', groupId);
+
+  return runTransaction(db, async (transaction) => {
+    const groupSnap = await transaction.get(groupRef);
+    if (!groupSnap.exists()) {
+      throw new InviteError('Group not found');
+    }
+    if (!isAdmin(groupSnap.data() as GroupData, actorUid)) {
+      throw new GroupPermissionError('Only group admins can create invites');
+    }
+
+    const code = generateCode();
+    const inviteRef = doc(invitesCollection, code);
+    if ((await transaction.get(inviteRef)).exists()) {
+      throw new InviteError('Invite code collision, please try again');
+    }
+
+    transaction.set(inviteRef, {
+      groupId,
+      createdBy: actorUid,
+      createdAt: serverTimestamp(),
+      expiresAt: expiresInMs === null ? null : Timestamp.fromMillis(Date.now() + expiresInMs),
+      maxUses,
+      uses: 0
+    });
+
+    return code;
+  });
+};
+
+export const revokeInvite = async (code: string, actorUid: string) => {
+  const inviteRef = doc(invitesCollection, code);
+
+  await runTransaction(db, async (transaction) => {
+    const inviteSnap = await transaction.get(inviteRef);
+    if (!inviteSnap.exists()) {
+      throw new InviteError('Invite not found');
+    }
+
+    const invite = inviteSnap.data() as InviteData;
+    const groupSnap = await transaction.get(doc(db, 'groups', invite.groupId));
+    if (!groupSnap.exists() || !isAdmin(groupSnap.data() as GroupData, actorUid)) {
+      throw new GroupPermissionError('Only group admins can revoke invites');
+    }
+
+    transaction.update(inviteRef, {
+      revokedAt: serverTimestamp(),
+      revokedBy: actorUid
+    });
+  });
+};
+
+// Only members can read a group, so a denied read means the group exists and
+// the user isn't in it yet
+const assertCanJoin = async (groupId: string) => {
+  let exists: boolean;
+  try {
+    exists = (await getDoc(doc(db, 'groups', groupId))).exists();
+  } catch (error) {
+    if (error instanceof FirestoreError && error.code === 'permission-denied') return;
+    throw error;
+  }
+  throw new InviteError(exists
+    ? 'You are already a member of this group'
+    : 'This group no longer exists');
+};
+
+// Validates the invite and counts the use in the same transaction as the
+// membership change, so usage limits hold under concurrent joins
+export const joinWithInvite = async (code: string, uid: string) => {
+  const inviteRef = doc(invitesCollection, code.trim().toUpperCase());
+
+  const groupId = await runTransaction(db, async (transaction) => {
+    const inviteSnap = await transaction.get(inviteRef);
+    if (!inviteSnap.exists()) {
+      throw new InviteError('Invalid invite code');
+    }
+
+    const invite = inviteSnap.data() as InviteData;
+    if (invite.revokedAt) {
+      throw new InviteError('This invite has been revoked');
+    }
+    if (invite.expiresAt && invite.expiresAt.toMillis() <= Date.now()) {
+      throw new InviteError('This invite has expired');
+    }
+    if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+      throw new InviteError('This invite has reached its usage limit');
+    }
+
+    await assertCanJoin(invite.groupId);
+
+    transaction.update(doc(db, 'groups', invite.groupId), {
+      members: arrayUnion(uid),
+      [`roles.${uid}`]: 'member'
+    });
+    // The rules check the join against the invite recorded here. Only the
+    // group's admins can read it back.
+    transaction.set(doc(db, 'groups', invite.groupId, 'joins', uid), {
+      code: inviteRef.id,
+      joinedAt: serverTimestamp()
+    });
+    transaction.update(inviteRef, { uses: increment(1) });
+
+    return invite.groupId;
+  });
+
+  // Rotate the group key so it is shared with the new member
+  const groupSnap = await getDoc(doc(db, 'groups', groupId));
+  await rotateGroupKey(groupId, (groupSnap.data() as GroupData).members, uid);
+  return groupId;
+};
@@ -0,0 +1,48 @@
+// Keeps the unlocked (non-extractable) private key on this device so the
+// passphrase is only needed once per sign-in.
+
+const DB_NAME = 'nexuschat-keys';
+const STORE_NAME = 'privateKeys';
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(
+        database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+export const savePrivateKey = async (uid: string, key: CryptoKey) => {
+  await runRequest('readwrite', (store) => store.put(key, uid));
+};
+
+export const loadPrivateKey = async (uid: string): Promise<CryptoKey | null> => {
+  const key = await runRequest<CryptoKey | undefined>('readonly', (store) =>
+    store.get(uid)
+  );
+  return key ?? null;
+};
+
+export const clearPrivateKey = async (uid: string) => {
+  await runRequest('readwrite', (store) => store.delete(uid));
+};
@@ -0,0 +1,192 @@
+// A small Markdown subset for chat messages. It parses into plain data that
+// ChatsPage renders as React elements, so message text is never injected as
+// HTML and the only way to produce a link is through isSafeUrl.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'mention'; username: string }
+  | { type: 'bold'; children: InlineNode[] }
+  | { type: 'italic'; children: InlineNode[] }
+  | { type: 'strike'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+export const isSafeUrl = (href: string) => {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+// Inline syntax, tried in this order at every position. Code spans come first
+// so nothing inside backticks is treated as formatting.
+const INLINE_RULES: {
+  pattern: RegExp;
+  build: (match: RegExpExecArray) => InlineNode;
+}[] = [
+  {
+    pattern: /`([^`\n]+)`/y,
+    build: (match) => ({ type: 'code', text: match[1] })
+  },
+  {
+    pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/y,
+    build: (match) => isSafeUrl(match[2])
+      ? { type: 'link', href: match[2], children: parseInline(match[1]) }
+      : { type: 'text', text: match[0] }
+  },
+  {
+    pattern: /(?:https?:\/\/|mailto:)[^\s<>()]+[^\s<>().,;:!?'"]/y,
+    build: (match) => isSafeUrl(match[0])
+      ? { type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] }
+      : { type: 'text', text: match[0] }
+  },
+  {
+    pattern: /@([\w.-]*\w)/y,
+    build: (match) => ({ type: 'mention', username: match[1] })
+  },
+  {
+    pattern: /(\*\*|__)(?=\S)([\s\S]*?\S)\1/y,
+    build: (match) => ({ type: 'bold', children: parseInline(match[2]) })
+  },
+  {
+    pattern: /~~(?=\S)([\s\S]*?\S)~~/y,
+    build: (match) => ({ type: 'strike', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /([*_])(?=\S)([\s\S]*?\S)\1(?![\w*])/y,
+    build: (match) => ({ type: 'italic', children: parseInline(match[2]) })
+  }
+];
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  let position = 0;
+
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  while (position < text.length) {
+    // Markers in the middle of a word (snake_case, 2*3*4, emails) stay literal
+    const previous = text[position - 1];
+    const midWord = !!previous && /\w/.test(previous);
+    let matched = false;
+
+    for (const rule of INLINE_RULES) {
+      if (midWord && '*_~@'.includes(text[position])) break;
+
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(text);
+      if (match) {
+        flush();
+        nodes.push(rule.build(match));
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      // Backslash escapes a markdown character
+      if (text[position] === '\\' && /[\\`*_~[\]()>#-]/.test(text[position + 1] ?? '')) {
+        plain += text[position + 1];
+        position += 2;
+      } else {
+        plain += text[position];
+        position += 1;
+      }
+    }
+  }
+
+  flush();
+  return nodes;
+};
+
+export const parseMarkdown = (text: string): BlockNode[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    paragraph = [];
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      index += 1;
+      // An unclosed fence runs to the end of the message
+      while (index < lines.length && !/^\s*```\s*$/.test(lines[index])) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), code: code.join('\n') });
+      index += 1;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(QUOTE.exec(lines[index])![1]);
+        index += 1;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.exec(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      flushParagraph();
+      const itemPattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: InlineNode[][] = [];
+      while (index < lines.length && itemPattern.test(lines[index])) {
+        const match = itemPattern.exec(lines[index])!;
+        items.push(parseInline(match[match.length - 1]));
+        index += 1;
+      }
+      blocks.push({
+        type: 'list',
+        ordered: !!ordered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items
+      });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    index += 1;
+  }
+
+  flushParagraph();
+  return blocks;
+};
@@ -0,0 +1,73 @@
+// Usernames are matched up to the first character that can't be part of one
+const MENTION_PATTERN = /(?:^|[^\w@])@([\w.-]*\w)/g;
+const MAX_SUGGESTIONS = 6;
+
+export interface MentionQuery {
+  query: string;
+  // Index of the @ in the text
+  start: number;
+}
+
+export const extractMentionNames = (text: string) =>
+  [...new Set([...text.matchAll(MENTION_PATTERN)].map(match => match[1].toLowerCase()))];
+
+// Resolves @usernames in the text to uids of group members. Names we haven't
+// loaded yet are looked up with `findUidByUsername`.
+export const resolveMentions = async (
+  text: string,
+  members: string[],
+  memberNames: Record<string, string>,
+  findUidByUsername: (username: string) => Promise<string | null>
+) => {
+  const uidsByName = new Map(
+    Object.entries(memberNames).map(([uid, username]) => [username.toLowerCase(), uid])
+  );
+
+  const uids = await Promise.all(extractMentionNames(text).map(async (name) => {
+    const known = uidsByName.get(name);
+    if (known) return known;
+
+    try {
+      return await findUidByUsername(name);
+    } catch (error) {
+      console.error('Error resolving mention:', error);
+      return undefined;
+    }
+  }));
+
+  return [...new Set(uids)].filter((uid): uid is string => !!uid && members.includes(uid));
+};
+
+// The partial @mention the caret is in, if any
+export const getMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = /(?:^|[^\w@])@([\w.-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+};
+
+export const suggestMentions = (
+  query: string,
+  memberNames: Record<string, string>,
+  excludeUid?: string
+) => Object.entries(memberNames)
+  .filter(([uid, username]) =>
+    uid !== excludeUid && username.toLowerCase().startsWith(query.toLowerCase()))
+  .sort(([, a], [, b]) => a.localeCompare(b))
+  .slice(0, MAX_SUGGESTIONS)
+  .map(([uid, username]) => ({ uid, username }));
+
+// Replaces the partial mention with the picked username, returning the new
+// text and where the caret should go
+export const insertMention = (
+  text: string,
+  mentionQuery: MentionQuery,
+  username: string
+) => {
+  const before = text.slice(0, mentionQuery.start);
+  const after = text.slice(mentionQuery.start + mentionQuery.query.length + 1);
+  const inserted = `@${username} `;
+  return {
+    text: before + inserted + after.replace(/^ /, ''),
+    caret: before.length + inserted.length
+  };
+};
@@ -0,0 +1,224 @@
+// Messages are end-to-end encrypted, so Firestore can't search them. Instead
+// the client decrypts the messages it can read and keeps an inverted index of
+// their words in memory. Nothing decrypted is written back or persisted.
+
+import { MessagesBackend } from '../backend/chatBackend';
+import { Message } from '../types/chat';
+
+export interface IndexedMessage {
+  id: string;
+  groupId: string;
+  senderId: string;
+  senderName: string;
+  parentId?: string;
+  timestamp: number;
+  text: string;
+}
+
+export interface SearchFilters {
+  groupId?: string;
+  senderId?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  message: IndexedMessage;
+  snippet: SnippetPart[];
+}
+
+const SNIPPET_CONTEXT = 40;
+const MAX_RESULTS = 50;
+// Messages fetched per query while building the index
+const INDEX_PAGE_SIZE = 200;
+// Edits are stamped with the server's time, so look back this far before the
+// last sync in case the device's clock runs ahead of it
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Lowercased, accent-insensitive words and numbers
+export const tokenize = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+export class MessageSearchIndex {
+  private messages = new Map<string, IndexedMessage>();
+  private postings = new Map<string, Set<string>>();
+
+  get size() {
+    return this.messages.size;
+  }
+
+  add(message: IndexedMessage) {
+    this.remove(message.id);
+    this.messages.set(message.id, message);
+
+    tokenize(message.text).forEach(token => {
+      const ids = this.postings.get(token) ?? new Set<string>();
+      ids.add(message.id);
+      this.postings.set(token, ids);
+    });
+  }
+
+  remove(id: string) {
+    const existing = this.messages.get(id);
+    if (!existing) return;
+
+    tokenize(existing.text).forEach(token => {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids?.size === 0) this.postings.delete(token);
+    });
+    this.messages.delete(id);
+  }
+
+  // Senders seen in indexed messages, for the sender filter
+  senders() {
+    const names = new Map<string, string>();
+    this.messages.forEach(message => names.set(message.senderId, message.senderName));
+    return [...names].map(([uid, username]) => ({ uid, username }));
+  }
+
+  // Every word in the query has to match. The last one is matched as a
+  // prefix so results show up while the user is still typing it.
+  search(queryText: string, filters: SearchFilters = {}): SearchResult[] {
+    const terms = tokenize(queryText);
+    if (terms.length === 0) return [];
+
+    let matches: Set<string> | null = null;
+    terms.forEach((term, index) => {
+      const ids = new Set<string>();
+      const isPrefix = index === terms.length - 1;
+
+      this.postings.forEach((postingIds, token) => {
+        if (token === term || (isPrefix && token.startsWith(term))) {
+          postingIds.forEach(id => ids.add(id));
+        }
+      });
+
+      matches = matches === null
+        ? ids
+        : new Set([...matches].filter(id => ids.has(id)));
+    });
+
+    return [...(matches ?? [])]
+      .map(id => this.messages.get(id)!)
+      .filter(message =>
+        (!filters.groupId || message.groupId === filters.groupId)
+        && (!filters.senderId || message.senderId === filters.senderId)
+        && (filters.from === undefined || message.timestamp >= filters.from)
+        && (filters.to === undefined || message.timestamp <= filters.to))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, MAX_RESULTS)
+      .map(message => ({ message, snippet: buildSnippet(message.text, terms) }));
+  }
+}
+
+interface GroupSyncState {
+  // The newest message indexed so far
+  cursor: Message | null;
+  // When the last complete sync started
+  syncedAt: number;
+}
+
+// Keeps an index in step with the groups' messages. The first sync of a group
+// reads all of it; later ones only fetch newer messages and the ones edited
+// or deleted since the previous sync.
+export class MessageSearchSync {
+  private groups = new Map<string, GroupSyncState>();
+
+  constructor(
+    readonly index: MessageSearchIndex,
+    private messages: MessagesBackend,
+    private uid: string
+  ) {}
+
+  async syncGroup(groupId: string) {
+    const startedAt = Date.now();
+    const previous = this.groups.get(groupId);
+    let cursor = previous?.cursor ?? null;
+
+    for (;;) {
+      const page = await this.messages.loadNewer(groupId, cursor, INDEX_PAGE_SIZE);
+      await Promise.all(page.messages.map(message => this.indexMessage(message)));
+      cursor = page.messages[page.messages.length - 1] ?? cursor;
+      if (!page.hasMore) break;
+    }
+
+    if (previous) {
+      const changed = await this.messages.loadChangedSince(
+        groupId,
+        new Date(previous.syncedAt - CLOCK_SKEW_MS)
+      );
+      await Promise.all(changed.map(message => this.indexMessage(message)));
+    }
+
+    this.groups.set(groupId, { cursor, syncedAt: startedAt });
+  }
+
+  private async indexMessage(message: Message) {
+    if (message.deletedAt) {
+      this.index.remove(message.id);
+      return;
+    }
+
+    try {
+      const text = await this.messages.openBody(message, this.uid);
+      if (!text) {
+        this.index.remove(message.id);
+        return;
+      }
+
+      this.index.add({
+        id: message.id,
+        groupId: message.groupId,
+        senderId: message.senderId,
+        senderName: message.senderName,
+        parentId: message.parentId,
+        timestamp: message.timestamp?.getTime() ?? 0,
+        text
+      });
+    } catch (error) {
+      // Messages from before we joined can't be decrypted, skip them
+      console.warn('Skipping message in search index:', message.id, error);
+    }
+  }
+}
+
+// Cuts a window of text around the first match and marks every word that
+// matches a search term
+export const buildSnippet = (text: string, terms: string[]): SnippetPart[] => {
+  const words = [...text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)];
+  const isMatch = (word: string) => {
+    const [token] = tokenize(word);
+    return !!token && terms.some(term => token.startsWith(term));
+  };
+
+  const firstMatch = words.find(word => isMatch(word[0]));
+  const start = Math.max(0, (firstMatch?.index ?? 0) - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, start + SNIPPET_CONTEXT * 4);
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  words.forEach(word => {
+    const wordStart = word.index ?? 0;
+    const wordEnd = wordStart + word[0].length;
+    if (wordStart < start || wordEnd > end || !isMatch(word[0])) return;
+
+    if (wordStart > cursor) parts.push({ text: text.slice(cursor, wordStart), match: false });
+    parts.push({ text: word[0], match: true });
+    cursor = wordEnd;
+  });
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+};
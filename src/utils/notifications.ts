@@ -0,0 +1,64 @@
+import { NotificationLevel, NotificationSettings } from '../types/user';
+
+const WORKER_URL = `${import.meta.env.BASE_URL}notification-sw.js`;
+
+export const NOTIFICATION_LEVELS: { value: NotificationLevel; label: string }[] = [
+  { value: 'all', label: 'All messages' },
+  { value: 'mentions', label: 'Mentions only' },
+  { value: 'muted', label: 'Muted' }
+];
+
+export interface MessageNotification {
+  title: string;
+  body: string;
+  groupId: string;
+}
+
+export const notificationsSupported = () =>
+  'Notification' in window && 'serviceWorker' in navigator;
+
+export const getGroupLevel = (
+  settings: NotificationSettings | undefined,
+  groupId: string
+): NotificationLevel => settings?.groups?.[groupId] ?? 'all';
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const registerNotificationWorker = () => {
+  if (!notificationsSupported()) return Promise.resolve(null);
+
+  registration ??= navigator.serviceWorker.register(WORKER_URL).catch((error) => {
+    console.error('Error registering notification worker:', error);
+    registration = null;
+    return null;
+  });
+  return registration;
+};
+
+export const requestNotificationPermission = async () => {
+  if (!notificationsSupported()) return 'denied' as NotificationPermission;
+
+  const permission = await Notification.requestPermission();
+  if (permission === 'granted') {
+    await registerNotificationWorker();
+  }
+  return permission;
+};
+
+// Shown through the service worker so clicks are handled even when the tab
+// is in the background. One notification per group, newer ones replace it.
+export const showMessageNotification = async ({ title, body, groupId }: MessageNotification) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const worker = await registerNotificationWorker();
+  if (!worker) return;
+
+  await worker.showNotification(title, {
+    body,
+    tag: `group-${groupId}`,
+    data: {
+      groupId,
+      url: `${window.location.origin}${import.meta.env.BASE_URL}chats`
+    }
+  });
+};
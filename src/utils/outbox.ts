@@ -0,0 +1,59 @@
+import { MessageDraft } from '../types/chat';
+
+// Messages waiting to be acknowledged by the server are kept in IndexedDB
+// until they are, so a failed send can be retried after a reload. Entries
+// only hold the encrypted payload, never the plaintext.
+
+const DB_NAME = 'nexuschat-outbox';
+const STORE_NAME = 'messages';
+
+export type OutboxStatus = 'sending' | 'failed';
+
+// Every attempt sends the same draft, and so writes the same message id,
+// so replaying an entry can't create a duplicate message
+export interface OutboxEntry extends MessageDraft {
+  status: OutboxStatus;
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(
+        database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry) => {
+  await runRequest('readwrite', (store) => store.put(entry));
+};
+
+export const removeOutboxEntry = async (id: string) => {
+  await runRequest('readwrite', (store) => store.delete(id));
+};
+
+export const loadOutbox = async (uid: string) => {
+  const entries = await runRequest<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return entries
+    .filter(entry => entry.senderId === uid)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
@@ -0,0 +1,17 @@
+// Set on redirects to sign in, so a shared link still opens afterwards
+export interface RedirectState {
+  from?: string;
+}
+
+// Where emailed sign-in links land
+export const emailLinkPath = '/auth/link';
+
+// Handles password reset, verification and email recovery links. Set it as
+// the action URL of the email templates in the Firebase console.
+export const authActionPath = '/auth/action';
+
+export const groupPath = (groupId: string) => `/chats/${groupId}`;
+
+// Permalink to a message, replies open in their thread
+export const messagePath = (groupId: string, messageId: string) =>
+  `/chats/${groupId}/m/${messageId}`;
@@ -0,0 +1,77 @@
+// Authenticator app (TOTP, RFC 6238) codes, and the backup codes that stand
+// in for the app when it's lost
+
+export const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// The key and settings an authenticator app was set up with
+export interface TotpParameters {
+  // Base32
+  secretKey: string;
+  // e.g. SHA1
+  hashingAlgorithm: string;
+  codeLength: number;
+  codeIntervalSeconds: number;
+}
+
+// No 0/O or 1/I, like invite codes. Ten characters from 32 are 50 bits.
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const BACKUP_CODE_LENGTH = 10;
+const BACKUP_CODE_COUNT = 10;
+
+const fromBase32 = (value: string) => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of value.toUpperCase().replace(/[\s=]/g, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error('Invalid authenticator key');
+    }
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+      buffer &= (1 << bits) - 1;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// The code the app shows at `time`
+export const generateTotp = async (totp: TotpParameters, time = Date.now()) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    fromBase32(totp.secretKey),
+    { name: 'HMAC', hash: totp.hashingAlgorithm.toUpperCase().replace(/^SHA-?/, 'SHA-') },
+    false,
+    ['sign']
+  );
+
+  const counter = Math.floor(time / 1000 / totp.codeIntervalSeconds);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+  return String(binary % 10 ** totp.codeLength).padStart(totp.codeLength, '0');
+};
+
+// Shown as XXXXX-XXXXX
+export const generateBackupCodes = () =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(BACKUP_CODE_LENGTH));
+    const code = Array.from(bytes, byte => BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length]).join('');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+// Codes are accepted however they're typed
+export const normalizeBackupCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Second-factor prompts take either kind of code
+export const isBackupCode = (code: string) => normalizeBackupCode(code).length === BACKUP_CODE_LENGTH;
@@ -0,0 +1,602 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  DocumentData,
+  FieldPath,
+  Firestore,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+
+// Runs against the Firestore emulator, see `npm test`
+
+let testEnv: RulesTestEnvironment;
+
+// alice owns g1, bob is an admin there and carol a member, each with a
+// profile named after them. mallory is signed in but in no group.
+const as = (uid: string) => testEnv.authenticatedContext(uid).firestore() as unknown as Firestore;
+
+const seed = (path: string, data: DocumentData) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore() as unknown as Firestore, path), data);
+  });
+
+const message = (overrides: DocumentData = {}) => ({
+  id: 'm1',
+  content: 'Hello',
+  senderId: 'alice',
+  senderName: 'alice',
+  groupId: 'g1',
+  timestamp: Timestamp.now(),
+  createdAt: new Date().toISOString(),
+  ...overrides
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-reactappdev',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed('groups/g1', {
+    type: 'group',
+    name: 'General',
+    description: '',
+    createdBy: 'alice',
+    members: ['alice', 'bob', 'carol'],
+    roles: { alice: 'owner', bob: 'admin', carol: 'member' }
+  });
+  for (const uid of ['alice', 'bob', 'carol']) {
+    await seed(`users/${uid}`, { username: uid, email: `${uid}@example.com` });
+  }
+  await seed('messages/m1', message());
+});
+
+describe('messages', () => {
+  it('lets members read a group\'s messages', async () => {
+    await assertSucceeds(getDoc(doc(as('carol'), 'messages/m1')));
+    await assertSucceeds(getDocs(query(collection(as('carol'), 'messages'), where('groupId', '==', 'g1'))));
+  });
+
+  it('keeps non-members from reading them', async () => {
+    await assertFails(getDoc(doc(as('mallory'), 'messages/m1')));
+    await assertFails(getDocs(query(collection(as('mallory'), 'messages'), where('groupId', '==', 'g1'))));
+  });
+
+  it('keeps signed-out users from reading them', async () => {
+    const db = testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+    await assertFails(getDoc(doc(db, 'messages/m1')));
+  });
+
+  it('lets members post as themselves', async () => {
+    await assertSucceeds(setDoc(doc(as('carol'), 'messages/m2'), message({
+      id: 'm2',
+      senderId: 'carol',
+      senderName: 'carol',
+      timestamp: serverTimestamp()
+    })));
+  });
+
+  it('keeps non-members from posting', async () => {
+    await assertFails(setDoc(doc(as('mallory'), 'messages/m2'), message({
+      id: 'm2',
+      senderId: 'mallory',
+      senderName: 'mallory',
+      timestamp: serverTimestamp()
+    })));
+  });
+
+  it('rejects a spoofed senderId', async () => {
+    await assertFails(setDoc(doc(as('carol'), 'messages/m2'), message({
+      id: 'm2',
+      senderId: 'alice',
+      senderName: 'alice',
+      timestamp: serverTimestamp()
+    })));
+  });
+
+  it('rejects a senderName other than the sender\'s username', async () => {
+    await assertFails(setDoc(doc(as('carol'), 'messages/m2'), message({
+      id: 'm2',
+      senderId: 'carol',
+      senderName: 'alice',
+      timestamp: serverTimestamp()
+    })));
+  });
+
+  it('only lets the author edit', async () => {
+    const edit = { content: 'Edited', editedAt: serverTimestamp() };
+    await assertSucceeds(updateDoc(doc(as('alice'), 'messages/m1'), edit));
+    await assertFails(updateDoc(doc(as('carol'), 'messages/m1'), edit));
+  });
+});
+
+describe('reactions', () => {
+  beforeEach(async () => {
+    await seed('messages/m1', message({ reactions: { '👍': ['alice'] } }));
+  });
+
+  it('lets members add and remove their own reaction', async () => {
+    const carol = doc(as('carol'), 'messages/m1');
+    await assertSucceeds(updateDoc(carol, new FieldPath('reactions', '👍'), arrayUnion('carol')));
+    await assertSucceeds(updateDoc(carol, new FieldPath('reactions', '🎉'), arrayUnion('carol')));
+    await assertSucceeds(updateDoc(carol, new FieldPath('reactions', '👍'), arrayRemove('carol')));
+  });
+
+  it('keeps members from reacting as someone else', async () => {
+    await assertFails(updateDoc(
+      doc(as('carol'), 'messages/m1'),
+      new FieldPath('reactions', '🎉'),
+      arrayUnion('bob')
+    ));
+  });
+
+  it('keeps members from removing other people\'s reactions', async () => {
+    await assertFails(updateDoc(
+      doc(as('carol'), 'messages/m1'),
+      new FieldPath('reactions', '👍'),
+      arrayRemove('alice')
+    ));
+    await assertFails(updateDoc(doc(as('carol'), 'messages/m1'), { reactions: {} }));
+  });
+
+  it('only allows one emoji per write', async () => {
+    await assertFails(updateDoc(doc(as('carol'), 'messages/m1'), {
+      'reactions.🎉': ['carol'],
+      'reactions.😂': ['carol']
+    }));
+  });
+
+  it('keeps non-members from reacting', async () => {
+    await assertFails(updateDoc(
+      doc(as('mallory'), 'messages/m1'),
+      new FieldPath('reactions', '🎉'),
+      arrayUnion('mallory')
+    ));
+  });
+});
+
+describe('mention inboxes', () => {
+  const mention = (overrides: DocumentData = {}) => ({
+    messageId: 'm1',
+    groupId: 'g1',
+    parentId: null,
+    senderId: 'alice',
+    senderName: 'alice',
+    createdAt: serverTimestamp(),
+    readAt: null,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    await seed('messages/m1', message({ mentions: ['carol'] }));
+    await seed('users/carol/mentions/m1', mention({ createdAt: Timestamp.now() }));
+  });
+
+  it('only let the mentioned user mark entries read', async () => {
+    await assertSucceeds(updateDoc(doc(as('carol'), 'users/carol/mentions/m1'), { readAt: serverTimestamp() }));
+    await assertFails(updateDoc(doc(as('alice'), 'users/carol/mentions/m1'), { senderName: 'bob' }));
+  });
+
+  it('let the sender take a mention out and add it again', async () => {
+    const db = as('alice');
+    const drop = writeBatch(db);
+    drop.update(doc(db, 'messages/m1'), {
+      content: 'Hi',
+      mentions: deleteField(),
+      editedAt: serverTimestamp()
+    });
+    drop.delete(doc(db, 'users/carol/mentions/m1'));
+    await assertSucceeds(drop.commit());
+
+    const add = writeBatch(db);
+    add.update(doc(db, 'messages/m1'), {
+      content: 'Hi @carol',
+      mentions: ['carol'],
+      editedAt: serverTimestamp()
+    });
+    add.set(doc(db, 'users/carol/mentions/m1'), mention());
+    await assertSucceeds(add.commit());
+  });
+
+  it('carry the sender\'s username', async () => {
+    await seed('messages/m2', message({ id: 'm2', mentions: ['bob'] }));
+    await assertFails(setDoc(doc(as('alice'), 'users/bob/mentions/m2'),
+      mention({ messageId: 'm2', senderName: 'carol' })));
+    await assertSucceeds(setDoc(doc(as('alice'), 'users/bob/mentions/m2'), mention({ messageId: 'm2' })));
+  });
+
+  it('keep other members from removing entries', async () => {
+    await assertFails(deleteDoc(doc(as('bob'), 'users/carol/mentions/m1')));
+  });
+});
+
+describe('usernames', () => {
+  const claim = (uid: string, username: string, profileName = username) => {
+    const db = as(uid);
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'users', uid), { username: profileName, email: `${uid}@example.com` });
+    batch.set(doc(db, 'usernames', username.toLowerCase()), { uid });
+    return batch.commit();
+  };
+
+  it('can be claimed once', async () => {
+    await assertSucceeds(claim('alice', 'Alice'));
+    await assertFails(claim('bob', 'alice'));
+  });
+
+  it('can only claim the name on the caller\'s profile', async () => {
+    await assertFails(claim('bob', 'robert', 'bob'));
+  });
+
+  it('can\'t be claimed for someone else', async () => {
+    await assertFails(setDoc(doc(as('bob'), 'usernames/alice'), { uid: 'alice' }));
+  });
+
+  it('can only be released by its owner after a rename', async () => {
+    await seed('users/alice', { username: 'alice' });
+    await seed('usernames/alice', { uid: 'alice' });
+
+    await assertFails(deleteDoc(doc(as('bob'), 'usernames/alice')));
+    await assertFails(deleteDoc(doc(as('alice'), 'usernames/alice')));
+
+    const db = as('alice');
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users/alice'), { username: 'alicia' });
+    batch.set(doc(db, 'usernames/alicia'), { uid: 'alice' });
+    batch.delete(doc(db, 'usernames/alice'));
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('users', () => {
+  beforeEach(async () => {
+    await seed('users/alice', { username: 'alice', email: 'alice@example.com' });
+  });
+
+  it('are readable by signed-in users only', async () => {
+    await assertSucceeds(getDoc(doc(as('mallory'), 'users/alice')));
+    const db = testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+    await assertFails(getDoc(doc(db, 'users/alice')));
+  });
+
+  it('are only writable by their owner', async () => {
+    await assertSucceeds(updateDoc(doc(as('alice'), 'users/alice'), { bio: 'Hi' }));
+    await assertFails(updateDoc(doc(as('bob'), 'users/alice'), { bio: 'Hacked' }));
+    await assertFails(setDoc(doc(as('bob'), 'users/alice'), { username: 'bob' }));
+  });
+
+  it('only take a username the caller claims', async () => {
+    await seed('usernames/bob', { uid: 'bob' });
+    await assertFails(updateDoc(doc(as('alice'), 'users/alice'), { username: 'bob' }));
+    await assertFails(updateDoc(doc(as('alice'), 'users/alice'), { username: 'alicia' }));
+    await assertFails(setDoc(doc(as('dave'), 'users/dave'), { username: 'dave' }));
+  });
+
+  it('can only be marked verified when the ID token is', async () => {
+    const verified = testEnv.authenticatedContext('alice', { email_verified: true })
+      .firestore() as unknown as Firestore;
+
+    await assertFails(updateDoc(doc(as('alice'), 'users/alice'), { emailVerified: true }));
+    await assertSucceeds(updateDoc(doc(verified, 'users/alice'), { emailVerified: true }));
+
+    const signUp = (emailVerified: boolean) => {
+      const db = as('dave');
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'users/dave'), { username: 'dave', emailVerified });
+      batch.set(doc(db, 'usernames/dave'), { uid: 'dave' });
+      return batch.commit();
+    };
+    await assertFails(signUp(true));
+    await assertSucceeds(signUp(false));
+  });
+
+  it('don\'t hold the wrapped private key', async () => {
+    const encryptedPrivateKey = { data: 'a', iv: 'b', salt: 'c' };
+    await assertFails(updateDoc(doc(as('alice'), 'users/alice'), { encryptedPrivateKey }));
+    await assertFails(setDoc(doc(as('bob'), 'users/bob'), { username: 'bob', encryptedPrivateKey }));
+  });
+
+  it('keep the private key readable by their owner only', async () => {
+    const keys = { encryptedPrivateKey: { data: 'a', iv: 'b', salt: 'c' } };
+    await assertSucceeds(setDoc(doc(as('alice'), 'users/alice/private/keys'), keys));
+    await assertSucceeds(getDoc(doc(as('alice'), 'users/alice/private/keys')));
+    await assertFails(getDoc(doc(as('bob'), 'users/alice/private/keys')));
+    await assertFails(setDoc(doc(as('bob'), 'users/alice/private/keys'), keys));
+  });
+
+  it('let older accounts move the key off their profile', async () => {
+    await seed('users/alice', {
+      username: 'alice',
+      encryptedPrivateKey: { data: 'a', iv: 'b', salt: 'c' }
+    });
+
+    await assertSucceeds(updateDoc(doc(as('alice'), 'users/alice'), { lastLoginAt: new Date() }));
+    await assertFails(updateDoc(doc(as('alice'), 'users/alice'), {
+      encryptedPrivateKey: { data: 'x', iv: 'y', salt: 'z' }
+    }));
+    await assertSucceeds(updateDoc(doc(as('alice'), 'users/alice'), {
+      encryptedPrivateKey: deleteField()
+    }));
+  });
+});
+
+describe('invites', () => {
+  const invite = (overrides: DocumentData = {}) => ({
+    groupId: 'g1',
+    createdBy: 'alice',
+    createdAt: Timestamp.now(),
+    expiresAt: null,
+    maxUses: 1,
+    uses: 0,
+    ...overrides
+  });
+
+  // What joinWithInvite writes
+  const join = (uid: string, code: string, role = 'member') => {
+    const db = as(uid);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'groups/g1'), {
+      members: arrayUnion(uid),
+      [`roles.${uid}`]: role
+    });
+    batch.set(doc(db, 'groups/g1/joins', uid), { code, joinedAt: serverTimestamp() });
+    batch.update(doc(db, 'invites', code), { uses: increment(1) });
+    return batch.commit();
+  };
+
+  it('let admins create invites, not members', async () => {
+    await assertSucceeds(setDoc(doc(as('bob'), 'invites/NEW1'),
+      invite({ createdBy: 'bob', createdAt: serverTimestamp() })));
+    await assertFails(setDoc(doc(as('carol'), 'invites/NEW2'),
+      invite({ createdBy: 'carol', createdAt: serverTimestamp() })));
+  });
+
+  it('let someone join once per use', async () => {
+    await seed('invites/ONCE', invite());
+    await assertSucceeds(join('mallory', 'ONCE'));
+    await assertFails(join('dave', 'ONCE'));
+  });
+
+  it('have to count the use to join', async () => {
+    await seed('invites/FREE', invite({ maxUses: null }));
+    const db = as('mallory');
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'groups/g1'), {
+      members: arrayUnion('mallory'),
+      'roles.mallory': 'member'
+    });
+    batch.set(doc(db, 'groups/g1/joins/mallory'), { code: 'FREE', joinedAt: serverTimestamp() });
+    await assertFails(batch.commit());
+  });
+
+  it('can\'t be used once expired or revoked', async () => {
+    await seed('invites/OLD', invite({ expiresAt: Timestamp.fromMillis(Date.now() - 1000) }));
+    await seed('invites/GONE', invite({ revokedAt: Timestamp.now(), revokedBy: 'alice' }));
+    await assertFails(join('mallory', 'OLD'));
+    await assertFails(join('mallory', 'GONE'));
+  });
+
+  it('only join the caller as a plain member', async () => {
+    await seed('invites/ONCE', invite());
+    await assertFails(join('mallory', 'ONCE', 'admin'));
+  });
+
+  it('keep the code a member joined with from everyone but admins', async () => {
+    await seed('invites/FREE', invite({ maxUses: null }));
+    await assertSucceeds(join('mallory', 'FREE'));
+
+    await assertSucceeds(getDoc(doc(as('bob'), 'groups/g1/joins/mallory')));
+    await assertFails(getDoc(doc(as('carol'), 'groups/g1/joins/mallory')));
+    await assertFails(getDoc(doc(as('dave'), 'groups/g1/joins/mallory')));
+  });
+});
+
+describe('backup codes', () => {
+  const backupCode = (overrides: DocumentData = {}) => ({
+    uid: 'alice',
+    factorUid: 'f1',
+    encrypted: { ciphertext: 'x', iv: 'y', salt: 'z' },
+    createdAt: serverTimestamp(),
+    ...overrides
+  });
+
+  it('can only be created for the caller', async () => {
+    await assertSucceeds(setDoc(doc(as('alice'), 'backupCodes/h1'), backupCode()));
+    await assertFails(setDoc(doc(as('mallory'), 'backupCodes/h2'), backupCode()));
+    await assertFails(setDoc(doc(as('alice'), 'backupCodes/h3'), backupCode({ extra: true })));
+  });
+
+  it('can be looked up by code before signing in, but only listed by their owner', async () => {
+    await seed('backupCodes/h1', backupCode({ createdAt: Timestamp.now() }));
+    const signedOut = testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+
+    await assertSucceeds(getDoc(doc(signedOut, 'backupCodes/h1')));
+    await assertSucceeds(getDocs(query(collection(as('alice'), 'backupCodes'), where('uid', '==', 'alice'))));
+    await assertFails(getDocs(query(collection(as('mallory'), 'backupCodes'), where('uid', '==', 'alice'))));
+  });
+
+  it('can only be used up by their owner, and never changed', async () => {
+    await seed('backupCodes/h1', backupCode({ createdAt: Timestamp.now() }));
+
+    await assertFails(updateDoc(doc(as('alice'), 'backupCodes/h1'), { factorUid: 'f2' }));
+    await assertFails(deleteDoc(doc(as('mallory'), 'backupCodes/h1')));
+    await assertSucceeds(deleteDoc(doc(as('alice'), 'backupCodes/h1')));
+  });
+});
+
+describe('groups', () => {
+  beforeEach(async () => {
+    // Groups from before join records kept the codes on the group
+    await seed('groups/g1', {
+      type: 'group',
+      name: 'General',
+      description: '',
+      createdBy: 'alice',
+      members: ['alice', 'bob', 'carol'],
+      roles: { alice: 'owner', bob: 'admin', carol: 'member' },
+      joinedWith: { carol: 'FREE' }
+    });
+  });
+
+  it('are readable by their members', async () => {
+    await assertSucceeds(getDoc(doc(as('carol'), 'groups/g1')));
+    await assertSucceeds(getDocs(query(
+      collection(as('carol'), 'groups'),
+      where('members', 'array-contains', 'carol')
+    )));
+  });
+
+  it('keep members, roles and join codes from non-members', async () => {
+    await assertFails(getDoc(doc(as('mallory'), 'groups/g1')));
+    await assertFails(getDocs(query(
+      collection(as('mallory'), 'groups'),
+      where('members', 'array-contains', 'alice')
+    )));
+  });
+
+  it('can be looked up when they don\'t exist', async () => {
+    await assertSucceeds(getDoc(doc(as('mallory'), 'groups/missing')));
+  });
+});
+
+describe('group keys', () => {
+  const encrypted = (keyVersion: number, sender = 'carol') => message({
+    id: 'm2',
+    encrypted: { ciphertext: 'AAAA', iv: 'AAAA', keyVersion },
+    senderId: sender,
+    senderName: sender,
+    timestamp: serverTimestamp()
+  });
+
+  beforeEach(async () => {
+    await seed('groups/g1/keys/1', {
+      version: 1,
+      wrappedKeys: { alice: 'k', bob: 'k', carol: 'k' },
+      rotatedBy: 'alice'
+    });
+    await seed('groups/g1/keys/2', {
+      version: 2,
+      wrappedKeys: { alice: 'k', bob: 'k', carol: 'k', dave: 'k' },
+      rotatedBy: 'alice'
+    });
+    await seed('groups/g1/keys/3', {
+      version: 3,
+      wrappedKeys: { alice: 'k', bob: 'k', carol: 'k' },
+      rotatedBy: 'dave'
+    });
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore() as unknown as Firestore, 'groups/g1'), { keyVersion: 3 });
+    });
+  });
+
+  it('let members send with a key only members hold', async () => {
+    await assertSucceeds(setDoc(doc(as('carol'), 'messages/m2'), encrypted(1)));
+  });
+
+  it('make the next sender replace a key a former member holds', async () => {
+    await assertFails(setDoc(doc(as('carol'), 'messages/m2'), encrypted(2)));
+    await assertFails(setDoc(doc(as('carol'), 'messages/m2'), encrypted(3)));
+  });
+
+  it('keep edits from using a key a former member holds', async () => {
+    await assertFails(updateDoc(doc(as('alice'), 'messages/m1'), {
+      encrypted: { ciphertext: 'AAAA', iv: 'AAAA', keyVersion: 2 },
+      editedAt: serverTimestamp()
+    }));
+  });
+
+  it('let holders share a version with members it was left out for', async () => {
+    await seed('groups/g1/keys/1', {
+      version: 1,
+      wrappedKeys: { alice: 'k', bob: 'k' },
+      rotatedBy: 'alice'
+    });
+
+    await assertFails(updateDoc(doc(as('carol'), 'groups/g1/keys/1'), { 'wrappedKeys.carol': 'k' }));
+    await assertFails(updateDoc(doc(as('bob'), 'groups/g1/keys/1'), { 'wrappedKeys.mallory': 'k' }));
+    await assertFails(updateDoc(doc(as('bob'), 'groups/g1/keys/1'), { 'wrappedKeys.alice': 'x' }));
+    await assertSucceeds(updateDoc(doc(as('bob'), 'groups/g1/keys/1'), { 'wrappedKeys.carol': 'k' }));
+    await assertSucceeds(getDoc(doc(as('carol'), 'groups/g1/keys/1')));
+  });
+
+  it('leave rotating to the members who stay', async () => {
+    await assertSucceeds(updateDoc(doc(as('carol'), 'groups/g1'), {
+      members: ['alice', 'bob'],
+      'roles.carol': deleteField()
+    }));
+    await assertFails(setDoc(doc(as('bob'), 'messages/m2'), encrypted(1, 'bob')));
+
+    const rotate = writeBatch(as('bob'));
+    rotate.set(doc(as('bob'), 'groups/g1/keys/4'), {
+      version: 4,
+      wrappedKeys: { alice: 'k', bob: 'k' },
+      rotatedBy: 'bob',
+      createdAt: serverTimestamp()
+    });
+    rotate.update(doc(as('bob'), 'groups/g1'), { keyVersion: 4 });
+    await assertSucceeds(rotate.commit());
+    await assertSucceeds(setDoc(doc(as('bob'), 'messages/m2'), encrypted(4, 'bob')));
+  });
+});
+
+describe('roles', () => {
+  it('let the owner promote and demote', async () => {
+    await assertSucceeds(updateDoc(doc(as('alice'), 'groups/g1'), { 'roles.carol': 'admin' }));
+    await assertSucceeds(updateDoc(doc(as('alice'), 'groups/g1'), { 'roles.carol': 'member' }));
+  });
+
+  it('can\'t be changed by admins or members', async () => {
+    await assertFails(updateDoc(doc(as('bob'), 'groups/g1'), { 'roles.carol': 'admin' }));
+    await assertFails(updateDoc(doc(as('carol'), 'groups/g1'), { 'roles.carol': 'owner' }));
+  });
+
+  it('keep the owner from giving up ownership by demoting themselves', async () => {
+    await assertFails(updateDoc(doc(as('alice'), 'groups/g1'), { 'roles.alice': 'member' }));
+  });
+
+  it('let admins remove members but not other admins or the owner', async () => {
+    await assertSucceeds(updateDoc(doc(as('bob'), 'groups/g1'), {
+      members: ['alice', 'bob'],
+      'roles.carol': deleteField()
+    }));
+    await assertFails(updateDoc(doc(as('bob'), 'groups/g1'), {
+      members: ['bob', 'carol'],
+      'roles.alice': deleteField()
+    }));
+  });
+
+  it('keep members from removing anyone', async () => {
+    await assertFails(updateDoc(doc(as('carol'), 'groups/g1'), {
+      members: ['alice', 'carol'],
+      'roles.bob': deleteField()
+    }));
+  });
+});
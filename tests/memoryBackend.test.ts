@@ -0,0 +1,339 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  GroupsUpdate,
+  InvalidBackupCodeError,
+  KeyPassphraseError,
+  SecondFactorRequiredError
+} from '../src/backend/chatBackend';
+import { createMemoryBackend, MemoryBackend } from '../src/backend/memoryBackend';
+import { hasVerifiedEmail } from '../src/utils/authProviders';
+import { Group, Mention, ReadReceipt, TypingEntry } from '../src/types/chat';
+import { NotificationSettings } from '../src/types/user';
+
+// The in-memory backend needs no emulator, these run with plain `vitest run`
+
+let backend: MemoryBackend;
+let alice: string;
+let bob: string;
+let group: Group;
+
+const send = (senderId: string, senderName: string, content: string, mentions: string[] = []) =>
+  backend.messages.send({
+    id: backend.messages.newId(),
+    content,
+    mentions,
+    senderId,
+    senderName,
+    groupId: group.id,
+    createdAt: new Date().toISOString()
+  });
+
+// Collects every update a subscription reports
+const record = <T>(subscribe: (onUpdate: (value: T) => void) => () => void) => {
+  const updates: T[] = [];
+  const unsubscribe = subscribe(value => updates.push(value));
+  return { updates, unsubscribe };
+};
+
+beforeEach(async () => {
+  backend = createMemoryBackend();
+  bob = (await backend.auth.signUp({ email: 'bob@example.com', password: 'secret1', username: 'bob' })).uid;
+  alice = (await backend.auth.signUp({ email: 'alice@example.com', password: 'secret1', username: 'alice' })).uid;
+
+  group = await backend.groups.create(alice, 'General', '');
+  const code = await backend.invites.create(group.id, alice, { expiresInMs: null, maxUses: null });
+  await backend.invites.join(code, bob);
+});
+
+describe('messages', () => {
+  it('pages through a group oldest first', async () => {
+    await send(alice, 'alice', 'one');
+    await send(alice, 'alice', 'two');
+    await send(bob, 'bob', 'three');
+
+    const first = await backend.messages.loadNewer(group.id, null, 2);
+    expect(first.messages.map(message => message.content)).toEqual(['one', 'two']);
+    expect(first.hasMore).toBe(true);
+
+    const rest = await backend.messages.loadNewer(group.id, first.messages[1], 2);
+    expect(rest.messages.map(message => message.content)).toEqual(['three']);
+    expect(rest.hasMore).toBe(false);
+  });
+
+  it('returns the newest message', async () => {
+    expect(await backend.messages.latest(group.id)).toBeNull();
+
+    await send(alice, 'alice', 'one');
+    await send(bob, 'bob', 'two');
+    expect((await backend.messages.latest(group.id))?.content).toBe('two');
+  });
+
+  it('loads a bounded page around a message', async () => {
+    for (const content of ['one', 'two', 'three', 'four', 'five']) {
+      await send(alice, 'alice', content);
+    }
+    const three = (await backend.messages.loadNewer(group.id, null, 5)).messages[2];
+
+    const page = await backend.messages.loadAround(group.id, three.id, 1);
+    expect(page?.messages.map(message => message.content)).toEqual(['four', 'three', 'two']);
+    expect(page?.hasMore).toBe(true);
+    expect(page?.hasNewer).toBe(true);
+
+    const newest = await backend.messages.loadAround(group.id, three.id, 2);
+    expect(newest?.hasMore).toBe(false);
+    expect(newest?.hasNewer).toBe(false);
+    expect(await backend.messages.loadAround(group.id, 'missing', 2)).toBeNull();
+  });
+});
+
+describe('group keys', () => {
+  it('are rotated by the next sender after a member leaves', async () => {
+    const { updates, unsubscribe } = record<GroupsUpdate>(onUpdate =>
+      backend.groups.subscribe(alice, onUpdate));
+    const keyVersion = updates[updates.length - 1].groups[0].keyVersion!;
+    await backend.groups.leave(group.id, bob);
+
+    const left = updates[updates.length - 1].groups[0];
+    expect(left.keyVersion).toBe(keyVersion);
+    expect(await backend.groups.currentKeyVersion(left, alice)).toBe(keyVersion + 1);
+    expect(updates[updates.length - 1].groups[0].keyVersion).toBe(keyVersion + 1);
+    unsubscribe();
+  });
+});
+
+describe('mentions', () => {
+  it('adds an inbox entry for mentioned users but not the sender', async () => {
+    const bobInbox = record<Mention[]>(onUpdate => backend.mentions.subscribe(bob, 10, onUpdate));
+    const aliceInbox = record<Mention[]>(onUpdate => backend.mentions.subscribe(alice, 10, onUpdate));
+
+    await send(alice, 'alice', 'hi @bob @alice', [bob, alice]);
+
+    const [mention] = bobInbox.updates[bobInbox.updates.length - 1];
+    expect(mention).toMatchObject({ groupId: group.id, senderId: alice, readAt: null });
+    expect(aliceInbox.updates[aliceInbox.updates.length - 1]).toEqual([]);
+
+    await backend.mentions.markRead(bob, [mention.id]);
+    expect(bobInbox.updates[bobInbox.updates.length - 1][0].readAt).toBeInstanceOf(Date);
+
+    bobInbox.unsubscribe();
+    aliceInbox.unsubscribe();
+  });
+
+  it('only adds entries for users newly mentioned by an edit', async () => {
+    await send(alice, 'alice', 'hi @bob', [bob]);
+    const message = (await backend.messages.latest(group.id))!;
+    await backend.mentions.markRead(bob, [message.id]);
+
+    await backend.messages.edit(message, { content: 'hi again @bob' }, [bob], { uid: alice, username: 'alice' });
+
+    const inbox = record<Mention[]>(onUpdate => backend.mentions.subscribe(bob, 10, onUpdate));
+    expect(inbox.updates[0]).toHaveLength(1);
+    expect(inbox.updates[0][0].readAt).not.toBeNull();
+    inbox.unsubscribe();
+  });
+
+  it('adds a new entry when an edit mentions someone again', async () => {
+    await send(alice, 'alice', 'hi @bob', [bob]);
+    const message = (await backend.messages.latest(group.id))!;
+    await backend.mentions.markRead(bob, [message.id]);
+    const inbox = record<Mention[]>(onUpdate => backend.mentions.subscribe(bob, 10, onUpdate));
+    const latest = () => inbox.updates[inbox.updates.length - 1];
+
+    await backend.messages.edit(message, { content: 'hi' }, [], { uid: alice, username: 'alice' });
+    expect(latest()).toEqual([]);
+
+    const edited = (await backend.messages.get(message.id))!;
+    await backend.messages.edit(edited, { content: 'hi @bob' }, [bob], { uid: alice, username: 'alice' });
+    expect(latest()).toMatchObject([{ id: message.id, readAt: null }]);
+    inbox.unsubscribe();
+  });
+
+  it('drops entries for deleted messages', async () => {
+    await send(alice, 'alice', 'hi @bob', [bob]);
+    const inbox = record<Mention[]>(onUpdate => backend.mentions.subscribe(bob, 10, onUpdate));
+
+    await backend.messages.remove((await backend.messages.latest(group.id))!);
+    expect(inbox.updates[inbox.updates.length - 1]).toEqual([]);
+    inbox.unsubscribe();
+  });
+});
+
+describe('read state', () => {
+  it('counts messages since the user last read the group', async () => {
+    const lastReadAt = record<number>(onUpdate => backend.readState.subscribe(group.id, bob, onUpdate));
+    expect(lastReadAt.updates).toEqual([0]);
+
+    await send(alice, 'alice', 'one');
+    await backend.readState.markRead(group.id, bob, 'bob');
+    const readAt = lastReadAt.updates[lastReadAt.updates.length - 1];
+    expect(readAt).toBeGreaterThan(0);
+
+    await send(alice, 'alice', 'two');
+    await send(alice, 'alice', 'three');
+    expect(await backend.readState.countUnread(group.id, readAt)).toBe(2);
+    lastReadAt.unsubscribe();
+  });
+
+  it('reports receipts for everyone in the group', async () => {
+    const receipts = record<ReadReceipt[]>(onUpdate =>
+      backend.readState.subscribeToReceipts(group.id, onUpdate));
+
+    await backend.readState.markRead(group.id, alice, 'alice');
+    await backend.readState.markRead(group.id, bob, 'bob');
+
+    expect(receipts.updates[receipts.updates.length - 1].map(receipt => receipt.username))
+      .toEqual(['alice', 'bob']);
+    receipts.unsubscribe();
+  });
+});
+
+describe('typing', () => {
+  it('shows typing users until they clear it', async () => {
+    const entries = record<TypingEntry[]>(onUpdate => backend.typing.subscribe(group.id, onUpdate));
+
+    await backend.typing.setTyping(group.id, bob, 'bob');
+    expect(entries.updates[entries.updates.length - 1]).toMatchObject([{ uid: bob, username: 'bob' }]);
+
+    await backend.typing.clearTyping(group.id, bob);
+    expect(entries.updates[entries.updates.length - 1]).toEqual([]);
+    entries.unsubscribe();
+  });
+});
+
+describe('notifications', () => {
+  it('stores per-group levels and do not disturb', async () => {
+    const settings = record<NotificationSettings>(onUpdate =>
+      backend.notifications.subscribeToSettings(bob, onUpdate));
+    const latest = () => settings.updates[settings.updates.length - 1];
+
+    await backend.notifications.setGroupLevel(bob, group.id, 'muted');
+    await backend.notifications.setDoNotDisturb(bob, true);
+    expect(latest()).toEqual({ groups: { [group.id]: 'muted' }, doNotDisturb: true });
+
+    // 'all' is the default and removes the entry
+    await backend.notifications.setGroupLevel(bob, group.id, 'all');
+    expect(latest().groups).toEqual({});
+    settings.unsubscribe();
+  });
+});
+
+describe('email changes', () => {
+  it('keep the old address until the emailed link is followed', async () => {
+    await backend.account.changeEmail('secret1', 'alice@example.org');
+    expect(backend.auth.currentUser()?.email).toBe('alice@example.com');
+    expect((await backend.auth.getProfile(alice))?.email).toBe('alice@example.com');
+
+    const code = backend.actionCodeFor('alice@example.org')!;
+    expect(await backend.auth.applyEmailActionCode(code)).toBe('alice@example.org');
+    expect(backend.auth.currentUser()?.email).toBe('alice@example.org');
+    expect(await backend.auth.getProfile(alice)).toMatchObject({
+      email: 'alice@example.org',
+      emailVerified: true
+    });
+
+    // The old address can undo it
+    await backend.auth.applyEmailActionCode(backend.actionCodeFor('alice@example.com')!);
+    expect(backend.auth.currentUser()?.email).toBe('alice@example.com');
+  });
+});
+
+describe('providers', () => {
+  it('only treats addresses from Google as verified', async () => {
+    await backend.auth.signOut();
+
+    const { user } = await backend.auth.signInWithProvider('github.com');
+    expect(hasVerifiedEmail(user)).toBe(false);
+    await backend.auth.completeProfile({ username: 'octo', passphrase: 'secret1' });
+    expect(await backend.auth.getProfile(user.uid)).toMatchObject({ emailVerified: false });
+    await backend.auth.signOut();
+
+    expect(hasVerifiedEmail((await backend.auth.signInWithProvider('google.com')).user)).toBe(true);
+  });
+});
+
+describe('passwords', () => {
+  it('asks for the old password to re-encrypt the keys after a reset', async () => {
+    await backend.auth.sendPasswordReset('alice@example.com');
+    await backend.auth.confirmPasswordReset(backend.actionCodeFor('alice@example.com')!, 'secret2');
+
+    await expect(backend.account.changePassword('secret2', 'secret3'))
+      .rejects.toBeInstanceOf(KeyPassphraseError);
+    await backend.account.changePassword('secret2', 'secret3', 'secret1');
+    await expect(backend.auth.unlockKeys(alice, 'secret3')).resolves.toBeUndefined();
+  });
+});
+
+describe('two-factor authentication', () => {
+  it('asks for a code when following a sign-in link', async () => {
+    const enrollment = await backend.account.startTotpEnrollment('secret1');
+    await enrollment.finish('123456', 'Authenticator app');
+    await backend.auth.signOut();
+
+    await backend.auth.sendSignInLink('alice@example.com', 'http://localhost/auth/link');
+    const link = backend.signInLinkFor('alice@example.com')!;
+    const error = await backend.auth.signInWithLink('alice@example.com', link).catch(e => e);
+    expect(error).toBeInstanceOf(SecondFactorRequiredError);
+    expect(backend.auth.currentUser()).toBeNull();
+
+    await (error as SecondFactorRequiredError).challenge.resolve('654321');
+    expect(backend.auth.currentUser()?.uid).toBe(alice);
+  });
+
+  it('takes each backup code in place of the app once', async () => {
+    const enrollment = await backend.account.startTotpEnrollment('secret1');
+    const [backupCode] = await enrollment.finish('123456', 'Authenticator app');
+    await backend.auth.signOut();
+
+    const signIn = async () => {
+      const error = await backend.auth.signIn('alice@example.com', 'secret1').catch(e => e);
+      expect(error).toBeInstanceOf(SecondFactorRequiredError);
+      return (error as SecondFactorRequiredError).challenge;
+    };
+
+    await (await signIn()).resolve(backupCode.toLowerCase());
+    expect(backend.auth.currentUser()?.uid).toBe(alice);
+    await backend.auth.signOut();
+
+    await expect((await signIn()).resolve(backupCode)).rejects.toBeInstanceOf(InvalidBackupCodeError);
+    expect(backend.auth.currentUser()).toBeNull();
+  });
+
+  it('asks for a code before changing the password', async () => {
+    const enrollment = await backend.account.startTotpEnrollment('secret1');
+    await enrollment.finish('123456', 'Authenticator app');
+
+    const error = await backend.account.changePassword('secret1', 'secret2').catch(e => e);
+    expect(error).toBeInstanceOf(SecondFactorRequiredError);
+
+    // The password only changes once the code is accepted
+    await expect(backend.account.changePassword('secret2', 'secret3')).rejects.toThrow();
+    await (error as SecondFactorRequiredError).challenge.resolve('654321');
+    await expect(backend.account.changePassword('secret2', 'secret3'))
+      .rejects.toBeInstanceOf(SecondFactorRequiredError);
+  });
+});
+
+describe('attachments', () => {
+  it('downloads what was uploaded until it is removed', async () => {
+    const file = new File(['hello'], 'hello.txt', { type: 'text/plain' });
+    const progress: number[] = [];
+
+    const attachment = await backend.attachments.upload(
+      file,
+      group.id,
+      await backend.groups.currentKeyVersion(group, alice),
+      alice,
+      fraction => progress.push(fraction)
+    );
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(await (await backend.attachments.download(attachment, group.id, bob)).text()).toBe('hello');
+
+    await backend.attachments.remove(attachment);
+    await expect(backend.attachments.download(attachment, group.id, bob)).rejects.toThrow();
+  });
+
+  it('rejects unsupported file types', async () => {
+    const file = new File(['#!/bin/sh'], 'run.sh', { type: 'application/x-sh' });
+    await expect(backend.attachments.upload(file, group.id, 1, alice, () => {})).rejects.toThrow();
+  });
+});
@@ -0,0 +1,103 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { doc, DocumentData, Firestore, setDoc, Timestamp } from 'firebase/firestore';
+import { firestoreBackend } from '../src/backend/firestoreBackend';
+import { MessageSearchIndex, MessageSearchSync } from '../src/utils/messageSearch';
+
+// Runs against the Firestore emulator, see `npm test`. The backend talks to
+// the emulator as alice, through the security rules.
+
+const { testEnv } = await vi.hoisted(async () => {
+  const { initializeTestEnvironment } = await import('@firebase/rules-unit-testing');
+  const { readFileSync } = await import('node:fs');
+  return {
+    testEnv: await initializeTestEnvironment({
+      projectId: 'demo-reactappdev',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    })
+  };
+});
+
+vi.mock('../src/config/firebase', () => ({
+  db: testEnv.authenticatedContext('alice').firestore(),
+  auth: {},
+  storage: {}
+}));
+
+const seed = (path: string, data: DocumentData) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore() as unknown as Firestore, path), data);
+  });
+
+// Seconds apart so the order doesn't depend on write timing
+const seedMessage = (id: string, content: string, secondsAgo: number) =>
+  seed(`messages/${id}`, {
+    id,
+    content,
+    senderId: 'alice',
+    senderName: 'alice',
+    groupId: 'g1',
+    timestamp: Timestamp.fromMillis(Date.now() - secondsAgo * 1000),
+    createdAt: new Date().toISOString()
+  });
+
+const searchIds = (index: MessageSearchIndex, text: string) =>
+  index.search(text).map(result => result.message.id).sort();
+
+let index: MessageSearchIndex;
+let sync: MessageSearchSync;
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed('groups/g1', {
+    type: 'group',
+    name: 'General',
+    description: '',
+    createdBy: 'alice',
+    members: ['alice', 'bob'],
+    roles: { alice: 'owner', bob: 'member' }
+  });
+  await seedMessage('m1', 'Lunch at noon?', 30);
+  await seedMessage('m2', 'Deploy is done', 20);
+
+  index = new MessageSearchIndex();
+  sync = new MessageSearchSync(index, firestoreBackend.messages, 'alice');
+  await sync.syncGroup('g1');
+});
+
+describe('search index sync', () => {
+  it('indexes the group\'s messages', () => {
+    expect(searchIds(index, 'lunch')).toEqual(['m1']);
+    expect(searchIds(index, 'deploy')).toEqual(['m2']);
+  });
+
+  it('picks up messages sent since the last sync', async () => {
+    await seedMessage('m3', 'Lunch moved to one', 10);
+
+    await sync.syncGroup('g1');
+    expect(searchIds(index, 'lunch')).toEqual(['m1', 'm3']);
+  });
+
+  it('re-indexes edited messages', async () => {
+    const message = (await firestoreBackend.messages.get('m1'))!;
+    await firestoreBackend.messages.edit(message, { content: 'Dinner at eight?' }, [], {
+      uid: 'alice',
+      username: 'alice'
+    });
+
+    await sync.syncGroup('g1');
+    expect(searchIds(index, 'lunch')).toEqual([]);
+    expect(searchIds(index, 'dinner')).toEqual(['m1']);
+  });
+
+  it('drops deleted messages', async () => {
+    await firestoreBackend.messages.remove((await firestoreBackend.messages.get('m2'))!);
+
+    await sync.syncGroup('g1');
+    expect(searchIds(index, 'deploy')).toEqual([]);
+    expect(index.size).toBe(1);
+  });
+});
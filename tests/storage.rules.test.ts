@@ -0,0 +1,115 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import { doc, Firestore, setDoc } from 'firebase/firestore';
+import {
+  deleteObject,
+  FirebaseStorage,
+  getMetadata,
+  ref,
+  uploadBytes,
+  UploadMetadata
+} from 'firebase/storage';
+
+// Runs against the Storage and Firestore emulators, see `npm test`. The
+// attachment rules read group membership from Firestore.
+
+let testEnv: RulesTestEnvironment;
+
+// alice and carol are in g1, mallory is signed in but in no group
+const as = (uid: string) => testEnv.authenticatedContext(uid).storage() as unknown as FirebaseStorage;
+
+const bytes = (size: number) => new Uint8Array(size);
+
+const upload = (uid: string, path: string, size = 16, metadata: UploadMetadata = {}) =>
+  uploadBytes(ref(as(uid), path), bytes(size), metadata);
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-reactappdev',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    storage: { rules: readFileSync('storage.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore() as unknown as Firestore, 'groups/g1'), {
+      type: 'group',
+      name: 'General',
+      description: '',
+      createdBy: 'alice',
+      members: ['alice', 'carol'],
+      roles: { alice: 'owner', carol: 'member' }
+    });
+  });
+});
+
+describe('attachments', () => {
+  it('are readable by the group\'s members only', async () => {
+    await assertSucceeds(upload('alice', 'attachments/g1/alice/f1'));
+
+    await assertSucceeds(getMetadata(ref(as('carol'), 'attachments/g1/alice/f1')));
+    await assertFails(getMetadata(ref(as('mallory'), 'attachments/g1/alice/f1')));
+  });
+
+  it('can only be uploaded by members under their own uid', async () => {
+    await assertFails(upload('carol', 'attachments/g1/alice/f1'));
+    await assertFails(upload('mallory', 'attachments/g1/mallory/f1'));
+    await assertSucceeds(upload('carol', 'attachments/g1/carol/f1'));
+  });
+
+  it('are capped at 10 MB plus the encryption overhead', async () => {
+    const limit = 10 * 1024 * 1024 + 16;
+    await assertSucceeds(upload('alice', 'attachments/g1/alice/f1', limit));
+    await assertFails(upload('alice', 'attachments/g1/alice/f2', limit + 1));
+  });
+
+  it('can only be deleted by their uploader', async () => {
+    await assertSucceeds(upload('alice', 'attachments/g1/alice/f1'));
+
+    await assertFails(deleteObject(ref(as('carol'), 'attachments/g1/alice/f1')));
+    await assertSucceeds(deleteObject(ref(as('alice'), 'attachments/g1/alice/f1')));
+  });
+});
+
+describe('avatars', () => {
+  const png = { contentType: 'image/png' };
+
+  it('are readable by signed-in users', async () => {
+    await assertSucceeds(upload('alice', 'avatars/alice/avatar', 16, png));
+
+    await assertSucceeds(getMetadata(ref(as('mallory'), 'avatars/alice/avatar')));
+    const signedOut = testEnv.unauthenticatedContext().storage() as unknown as FirebaseStorage;
+    await assertFails(getMetadata(ref(signedOut, 'avatars/alice/avatar')));
+  });
+
+  it('can only be uploaded by their owner', async () => {
+    await assertFails(upload('mallory', 'avatars/alice/avatar', 16, png));
+  });
+
+  it('are capped at 2 MB', async () => {
+    await assertSucceeds(upload('alice', 'avatars/alice/avatar', 2 * 1024 * 1024, png));
+    await assertFails(upload('alice', 'avatars/alice/avatar', 2 * 1024 * 1024 + 1, png));
+  });
+
+  it('only accept PNG, JPEG, GIF and WebP images', async () => {
+    for (const contentType of ['image/png', 'image/jpeg', 'image/gif', 'image/webp']) {
+      await assertSucceeds(upload('alice', 'avatars/alice/avatar', 16, { contentType }));
+    }
+    for (const contentType of ['image/svg+xml', 'text/html', 'application/octet-stream']) {
+      await assertFails(upload('alice', 'avatars/alice/avatar', 16, { contentType }));
+    }
+  });
+});